@@ -6,7 +6,6 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useEffect } from "react";
 import { AuthProvider, useAuth } from "@/context/AuthContext";
-import { RealTimeSync } from "@/components/RealTimeSync";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Profile from "./pages/Profile";
@@ -43,11 +42,8 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 };
 
 const AppContent = () => {
-  const { isAuthenticated, isGuest } = useAuth();
-  
   return (
     <>
-      {isAuthenticated && <RealTimeSync />}
       <Routes>
         <Route path="/auth" element={<Auth />} />
         <Route 
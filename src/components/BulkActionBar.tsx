@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useTaskContext } from "@/context/TaskContext";
+import { TaskPriority, TaskStatus } from "@/types/task";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { BulkTaskChange, countTasks } from "@/lib/bulkEdit";
+import { CalendarIcon, CheckCircle2, Flag, Minus, Plus, Tag, Trash2, X } from "lucide-react";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // Tasks shown with the current filters, all of which can be selected
+  filteredCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onApply: (change: BulkTaskChange) => void;
+  onDelete: () => void;
+}
+
+const STATUS_OPTIONS: { value: TaskStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "in-progress", label: "In Progress" },
+  { value: "completed", label: "Completed" },
+];
+
+const PRIORITY_OPTIONS: { value: TaskPriority; label: string }[] = [
+  { value: "low", label: "Low" },
+  { value: "medium", label: "Medium" },
+  { value: "high", label: "High" },
+];
+
+// Actions for the tasks selected in the list
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  filteredCount,
+  onSelectAll,
+  onClearSelection,
+  onApply,
+  onDelete,
+}) => {
+  const { tags } = useTaskContext();
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [showDeleteAlert, setShowDeleteAlert] = useState(false);
+
+  const setDueDate = (dueDate: Date | null) => {
+    onApply({ dueDate });
+    setShowDatePicker(false);
+  };
+
+  return (
+    <div className="sticky top-16 z-10 mb-4 flex flex-wrap items-center gap-2 rounded-xl border border-border/70 bg-background/95 p-2 shadow-sm backdrop-blur-md animate-fade-in">
+      <span className="px-2 text-sm font-medium">{selectedCount} selected</span>
+      {selectedCount < filteredCount && (
+        <Button variant="link" size="sm" className="h-auto p-0 text-task-purple" onClick={onSelectAll}>
+          Select all {filteredCount}
+        </Button>
+      )}
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="rounded-full border-border/50">
+              <CheckCircle2 className="mr-1.5 h-3.5 w-3.5" />
+              Status
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {STATUS_OPTIONS.map(({ value, label }) => (
+              <DropdownMenuItem key={value} onSelect={() => onApply({ status: value })}>
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="rounded-full border-border/50">
+              <Flag className="mr-1.5 h-3.5 w-3.5" />
+              Priority
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {PRIORITY_OPTIONS.map(({ value, label }) => (
+              <DropdownMenuItem key={value} onSelect={() => onApply({ priority: value })}>
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Popover open={showDatePicker} onOpenChange={setShowDatePicker}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="rounded-full border-border/50">
+              <CalendarIcon className="mr-1.5 h-3.5 w-3.5" />
+              Due date
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0 pointer-events-auto" align="end">
+            <Calendar
+              mode="single"
+              onSelect={(date) => date && setDueDate(date)}
+              initialFocus
+              className="p-3"
+            />
+            <div className="border-t border-border/50 p-2">
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => setDueDate(null)}>
+                <X className="mr-1.5 h-3.5 w-3.5" />
+                Remove due date
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="rounded-full border-border/50" disabled={tags.length === 0}>
+              <Tag className="mr-1.5 h-3.5 w-3.5" />
+              Tags
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Plus className="mr-2 h-3.5 w-3.5" />
+                Add tag
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {tags.map((tag) => (
+                  <DropdownMenuItem key={tag.id} onSelect={() => onApply({ addTags: [tag] })}>
+                    <span className="mr-2 h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Minus className="mr-2 h-3.5 w-3.5" />
+                Remove tag
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {tags.map((tag) => (
+                  <DropdownMenuItem key={tag.id} onSelect={() => onApply({ removeTagIds: [tag.id] })}>
+                    <span className="mr-2 h-2.5 w-2.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="rounded-full border-border/50 hover:text-red-500"
+          onClick={() => setShowDeleteAlert(true)}
+        >
+          <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+          Delete
+        </Button>
+
+        <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full" onClick={onClearSelection}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Clear selection</span>
+        </Button>
+      </div>
+
+      <AlertDialog open={showDeleteAlert} onOpenChange={setShowDeleteAlert}>
+        <AlertDialogContent className="rounded-xl border border-border/70">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {countTasks(selectedCount)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected tasks will be deleted. You can undo this from the notification that follows.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-full">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete} className="rounded-full bg-red-500 hover:bg-red-600">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,337 @@
+import { useEffect, useMemo, useState } from "react";
+import { useTaskContext, TaskCommand } from "@/context/TaskContext";
+import { useAuth } from "@/context/AuthContext";
+import { Task, TaskStatus } from "@/types/task";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { KEYBOARD_SHORTCUTS, ShortcutAction, formatShortcut } from "@/hooks/use-keyboard-shortcuts";
+import { searchTasks, tokenizeSearch } from "@/lib/search";
+import { cn } from "@/lib/utils";
+import {
+  ArrowLeft,
+  Calendar,
+  CheckCircle2,
+  Circle,
+  Columns3,
+  Edit,
+  Filter,
+  Flag,
+  Keyboard,
+  LayoutDashboard,
+  List,
+  LogOut,
+  PlayCircle,
+  Plus,
+  Sparkles,
+  Tag,
+  Trash2,
+  Redo2,
+  Undo2,
+} from "lucide-react";
+
+export type DashboardView = "tasks" | "board" | "calendar" | "analytics";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAddTask: () => void;
+  onEditTask: (task: Task) => void;
+  onViewChange: (view: DashboardView) => void;
+  onFilterChange: (tagId: string) => void;
+  onStatusFilterChange: (status: TaskStatus | "all") => void;
+  aiPrioritized: boolean;
+  onAiPrioritizedChange: (enabled: boolean) => void;
+  onShowShortcuts: () => void;
+  onSignOut: () => void;
+}
+
+// A palette entry that isn't tied to a task
+interface PaletteAction {
+  id: string;
+  label: string;
+  group: string;
+  icon: React.ElementType;
+  shortcut?: ShortcutAction;
+  run: () => void;
+}
+
+// How many tasks are listed at once
+const TASK_LIMIT = 8;
+
+const STATUS_ICONS: Record<TaskStatus, React.ElementType> = {
+  pending: Circle,
+  "in-progress": PlayCircle,
+  completed: CheckCircle2,
+};
+
+const COMMAND_ICONS: Record<TaskCommand["group"], React.ElementType> = {
+  status: CheckCircle2,
+  priority: Flag,
+  task: Trash2,
+};
+
+// Every word typed has to appear in the label
+const matchesLabel = (label: string, search: string) =>
+  tokenizeSearch(search).every((term) => label.toLowerCase().includes(term));
+
+const ShortcutKeys = ({ action }: { action?: ShortcutAction }) => {
+  const shortcut = action && KEYBOARD_SHORTCUTS.find((s) => s.action === action);
+  if (!shortcut) return null;
+  return <CommandShortcut>{formatShortcut(shortcut).join(" ")}</CommandShortcut>;
+};
+
+// Ctrl/Cmd+K palette: find a task and act on it, or run an app-wide action
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  open,
+  onOpenChange,
+  onAddTask,
+  onEditTask,
+  onViewChange,
+  onFilterChange,
+  onStatusFilterChange,
+  aiPrioritized,
+  onAiPrioritizedChange,
+  onShowShortcuts,
+  onSignOut,
+}) => {
+  const { tasks, tags, getTaskById, getTaskCommands, undo, redo, canUndo, canRedo } = useTaskContext();
+  const { isGuest } = useAuth();
+  const [search, setSearch] = useState("");
+  // The task whose commands are shown, if one was picked
+  const [taskId, setTaskId] = useState<string | null>(null);
+  const [pendingCommand, setPendingCommand] = useState<TaskCommand | null>(null);
+
+  // Start over every time the palette opens
+  useEffect(() => {
+    if (open) {
+      setSearch("");
+      setTaskId(null);
+    }
+  }, [open]);
+
+  const selectedTask = taskId ? getTaskById(taskId) : undefined;
+
+  const actions = useMemo<PaletteAction[]>(() => [
+    { id: "add-task", label: "Add task", group: "Actions", icon: Plus, shortcut: "newTask", run: onAddTask },
+    {
+      id: "ai-priority",
+      label: aiPrioritized ? "Turn off AI Priority" : "Turn on AI Priority",
+      group: "Actions",
+      icon: Sparkles,
+      shortcut: "aiPriority",
+      run: () => onAiPrioritizedChange(!aiPrioritized),
+    },
+    ...(canUndo ? [{ id: "undo", label: "Undo last change", group: "Actions", icon: Undo2, shortcut: "undo" as const, run: undo }] : []),
+    ...(canRedo ? [{ id: "redo", label: "Redo", group: "Actions", icon: Redo2, shortcut: "redo" as const, run: redo }] : []),
+    { id: "shortcuts", label: "Show keyboard shortcuts", group: "Actions", icon: Keyboard, shortcut: "help", run: onShowShortcuts },
+    { id: "view-tasks", label: "Go to Tasks", group: "Go to", icon: List, shortcut: "viewTasks", run: () => onViewChange("tasks") },
+    { id: "view-board", label: "Go to Board", group: "Go to", icon: Columns3, shortcut: "viewBoard", run: () => onViewChange("board") },
+    { id: "view-calendar", label: "Go to Calendar", group: "Go to", icon: Calendar, shortcut: "viewCalendar", run: () => onViewChange("calendar") },
+    { id: "view-analytics", label: "Go to Analytics", group: "Go to", icon: LayoutDashboard, shortcut: "viewAnalytics", run: () => onViewChange("analytics") },
+    { id: "status-all", label: "Show all tasks", group: "Filters", icon: Filter, run: () => onStatusFilterChange("all") },
+    { id: "status-pending", label: "Show pending tasks", group: "Filters", icon: Circle, run: () => onStatusFilterChange("pending") },
+    { id: "status-in-progress", label: "Show tasks in progress", group: "Filters", icon: PlayCircle, run: () => onStatusFilterChange("in-progress") },
+    { id: "status-completed", label: "Show completed tasks", group: "Filters", icon: CheckCircle2, run: () => onStatusFilterChange("completed") },
+    ...tags.map((tag): PaletteAction => ({
+      id: `tag-${tag.id}`,
+      label: `Filter by tag ${tag.name}`,
+      group: "Filters",
+      icon: Tag,
+      run: () => onFilterChange(tag.id),
+    })),
+    { id: "clear-tag", label: "Clear tag filter", group: "Filters", icon: Filter, run: () => onFilterChange("") },
+    { id: "sign-out", label: isGuest ? "Exit Guest Mode" : "Sign out", group: "Account", icon: LogOut, run: onSignOut },
+  ], [tags, aiPrioritized, isGuest, canUndo, canRedo, undo, redo, onAddTask, onAiPrioritizedChange, onShowShortcuts, onViewChange, onStatusFilterChange, onFilterChange, onSignOut]);
+
+  // Open tasks first while nothing is typed; ranked by the search index otherwise
+  const matchingTasks = useMemo(() => {
+    if (!search.trim()) {
+      return tasks.filter((task) => task.status !== "completed").slice(0, TASK_LIMIT);
+    }
+    return searchTasks(tasks, search).slice(0, TASK_LIMIT).map((result) => result.task);
+  }, [tasks, search]);
+
+  const actionGroups = useMemo(() => {
+    const groups = new Map<string, PaletteAction[]>();
+    for (const action of actions) {
+      if (search.trim() && !matchesLabel(action.label, search)) continue;
+      groups.set(action.group, [...(groups.get(action.group) || []), action]);
+    }
+    return Array.from(groups);
+  }, [actions, search]);
+
+  const taskCommands = selectedTask
+    ? getTaskCommands(selectedTask.id).filter((command) => !search.trim() || matchesLabel(command.label, search))
+    : [];
+
+  const close = () => onOpenChange(false);
+
+  const runAction = (action: PaletteAction) => {
+    close();
+    action.run();
+  };
+
+  const runTaskCommand = (command: TaskCommand) => {
+    close();
+    if (command.destructive) setPendingCommand(command);
+    else command.run();
+  };
+
+  const showTask = (task: Task) => {
+    setTaskId(task.id);
+    setSearch("");
+  };
+
+  const goBack = () => {
+    setTaskId(null);
+    setSearch("");
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg sm:max-w-[560px]">
+          <DialogTitle className="sr-only">Command palette</DialogTitle>
+          {/* Results come from the task search index, so cmdk's own filtering is off */}
+          <Command
+            shouldFilter={false}
+            className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]:not([hidden])_~[cmdk-group]]:pt-0 [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3 [&_[cmdk-item]_svg]:h-4 [&_[cmdk-item]_svg]:w-4"
+          >
+            <CommandInput
+              placeholder={selectedTask ? `What to do with "${selectedTask.title}"?` : "Search tasks or type a command..."}
+              value={search}
+              onValueChange={setSearch}
+              onKeyDown={(e) => {
+                // Backspace on an empty input goes back from a task to the main list
+                if (e.key === "Backspace" && !search && selectedTask) {
+                  e.preventDefault();
+                  goBack();
+                }
+              }}
+            />
+            <CommandList className="max-h-[400px]">
+              <CommandEmpty>No results found.</CommandEmpty>
+
+              {selectedTask ? (
+                <>
+                  <CommandGroup heading={selectedTask.title}>
+                    <CommandItem value="back" onSelect={goBack}>
+                      <ArrowLeft className="mr-2" />
+                      Back
+                    </CommandItem>
+                    {matchesLabel("Edit task", search) && (
+                      <CommandItem value="edit" onSelect={() => { close(); onEditTask(selectedTask); }}>
+                        <Edit className="mr-2" />
+                        Edit task
+                      </CommandItem>
+                    )}
+                  </CommandGroup>
+                  {taskCommands.length > 0 && <CommandSeparator />}
+                  {taskCommands.length > 0 && (
+                    <CommandGroup heading="Commands">
+                      {taskCommands.map((command) => {
+                        const Icon = COMMAND_ICONS[command.group];
+                        return (
+                          <CommandItem
+                            key={command.id}
+                            value={command.id}
+                            onSelect={() => runTaskCommand(command)}
+                            className={cn(command.destructive && "text-red-500 aria-selected:text-red-500")}
+                          >
+                            <Icon className="mr-2" />
+                            {command.label}
+                          </CommandItem>
+                        );
+                      })}
+                    </CommandGroup>
+                  )}
+                </>
+              ) : (
+                <>
+                  {matchingTasks.length > 0 && (
+                    <CommandGroup heading="Tasks">
+                      {matchingTasks.map((task) => {
+                        const Icon = STATUS_ICONS[task.status];
+                        return (
+                          <CommandItem key={task.id} value={`task-${task.id}`} onSelect={() => showTask(task)}>
+                            <Icon className={cn("mr-2", task.status === "completed" && "text-task-purple")} />
+                            <span className={cn("truncate", task.status === "completed" && "line-through text-muted-foreground")}>
+                              {task.title}
+                            </span>
+                            <span className="ml-auto flex shrink-0 gap-1 pl-2">
+                              {task.tags.slice(0, 3).map((tag) => (
+                                <span
+                                  key={tag.id}
+                                  className="h-2 w-2 rounded-full"
+                                  style={{ backgroundColor: tag.color }}
+                                  title={tag.name}
+                                />
+                              ))}
+                            </span>
+                          </CommandItem>
+                        );
+                      })}
+                    </CommandGroup>
+                  )}
+                  {actionGroups.map(([group, groupActions]) => (
+                    <CommandGroup key={group} heading={group}>
+                      {groupActions.map((action) => (
+                        <CommandItem key={action.id} value={action.id} onSelect={() => runAction(action)}>
+                          <action.icon className="mr-2" />
+                          {action.label}
+                          <ShortcutKeys action={action.shortcut} />
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  ))}
+                </>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingCommand} onOpenChange={(isOpen) => !isOpen && setPendingCommand(null)}>
+        <AlertDialogContent className="rounded-xl border border-border/70">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingCommand?.label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This applies to "{selectedTask?.title}". You can undo it from the notification that follows.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-full">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                pendingCommand?.run();
+                setPendingCommand(null);
+              }}
+              className="rounded-full bg-red-500 hover:bg-red-600"
+            >
+              Confirm
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { useTaskContext } from "@/context/TaskContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { GuestData, clearGuestData, readGuestData } from "@/lib/guestStorage";
+import { hasGuestDataToImport, importGuestData } from "@/services/guestImportService";
+import { Loader2 } from "lucide-react";
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? "s" : ""}`;
+
+// Offers to copy the data a guest session left on this device into the account
+// that just signed in
+export const GuestImportDialog: React.FC = () => {
+  const { user, isGuest } = useAuth();
+  const { tags, loading, reloadData } = useTaskContext();
+  const { toast } = useToast();
+  const [guestData, setGuestData] = useState<GuestData | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!user?.id || isGuest) {
+      setGuestData(null);
+      return;
+    }
+    let cancelled = false;
+    readGuestData()
+      .then((data) => {
+        if (!cancelled) setGuestData(hasGuestDataToImport(data) ? data : null);
+      })
+      .catch((error) => {
+        console.error("Error reading guest data:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, isGuest]);
+
+  // Wait for the account's tags so guest tags can be matched against them
+  if (!guestData || loading || !user?.id) return null;
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const result = await importGuestData(guestData, user.id, tags);
+
+      // Keep the guest data when something failed, so the import can be retried
+      if (result.failed === 0) {
+        await clearGuestData();
+      }
+      await reloadData();
+
+      const tagSummary = result.tagsMerged > 0
+        ? `${plural(result.tagsCreated, "new tag")} (${result.tagsMerged} matched existing tags)`
+        : plural(result.tagsCreated, "new tag");
+      toast({
+        title: result.failed === 0 ? "Guest data imported" : "Guest data partly imported",
+        description: `Imported ${plural(result.tasks, "task")}, ${plural(result.projects, "project")}, ` +
+          `${plural(result.views, "saved view")} and ${tagSummary}.` +
+          (result.failed > 0 ? ` ${result.failed} item${result.failed !== 1 ? "s" : ""} could not be imported; you'll be asked again next time.` : ""),
+        variant: result.failed === 0 ? "default" : "destructive",
+      });
+      setGuestData(null);
+    } catch (error: unknown) {
+      console.error("Error importing guest data:", error);
+      toast({
+        title: "Failed to import guest data",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    try {
+      await clearGuestData();
+    } catch (error: unknown) {
+      console.error("Error discarding guest data:", error);
+      toast({
+        title: "Failed to discard guest data",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
+    setGuestData(null);
+    toast({
+      title: "Guest data discarded",
+      description: "The tasks from guest mode have been removed from this device.",
+    });
+  };
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && !importing && setGuestData(null)}>
+      <AlertDialogContent className="rounded-xl border border-border/70">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Import your guest data?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You have {plural(guestData.tasks.length, "task")}
+            {guestData.projects.length > 0 && `, ${plural(guestData.projects.length, "project")}`}
+            {guestData.views.length > 0 && `, ${plural(guestData.views.length, "saved view")}`} and{" "}
+            {plural(guestData.tags.length, "tag")} from guest mode on this device. Import them into your
+            account to keep them across devices.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={handleDiscard} disabled={importing}>
+            Discard
+          </Button>
+          <AlertDialogCancel disabled={importing}>Not now</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              // Keep the dialog open while importing
+              e.preventDefault();
+              handleImport();
+            }}
+            disabled={importing}
+            className="bg-task-purple hover:bg-task-purple-dark"
+          >
+            {importing && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+            {importing ? "Importing..." : "Import"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
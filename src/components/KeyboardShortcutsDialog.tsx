@@ -0,0 +1,41 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KEYBOARD_SHORTCUTS, formatShortcut } from "@/hooks/use-keyboard-shortcuts";
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ open, onOpenChange }) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-[400px] rounded-xl border border-border/70 shadow-xl">
+      <DialogHeader>
+        <DialogTitle>Keyboard shortcuts</DialogTitle>
+        <DialogDescription>Apart from the command palette, shortcuts work when you're not typing in a field.</DialogDescription>
+      </DialogHeader>
+      <div className="space-y-2">
+        {KEYBOARD_SHORTCUTS.map((shortcut) => (
+          <div key={`${shortcut.action}-${shortcut.key}`} className="flex items-center justify-between text-sm">
+            <span>{shortcut.description}</span>
+            <span className="flex gap-1">
+              {formatShortcut(shortcut).map((key) => (
+                <kbd
+                  key={key}
+                  className="min-w-[1.5rem] rounded border border-border/70 bg-muted px-1.5 py-0.5 text-center font-mono text-xs text-muted-foreground"
+                >
+                  {key}
+                </kbd>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useTaskContext } from "@/context/TaskContext";
+import { TaskProject } from "@/types/task";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChevronDown, FolderKanban, Pencil, Plus, Trash2 } from "lucide-react";
+
+interface ProjectSwitcherProps {
+  currentProject: string;
+  onProjectChange: (projectId: string) => void;
+}
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  currentProject,
+  onProjectChange,
+}) => {
+  const { projects, addProject, updateProject, deleteProject } = useTaskContext();
+  const [editingProject, setEditingProject] = useState<TaskProject | null>(null);
+  const [showProjectDialog, setShowProjectDialog] = useState(false);
+  const [showDeleteAlert, setShowDeleteAlert] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const activeProject = projects.find((p) => p.id === currentProject);
+
+  const openCreateDialog = () => {
+    setEditingProject(null);
+    setName("");
+    setDescription("");
+    setShowProjectDialog(true);
+  };
+
+  const openEditDialog = () => {
+    if (!activeProject) return;
+    setEditingProject(activeProject);
+    setName(activeProject.name);
+    setDescription(activeProject.description || "");
+    setShowProjectDialog(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    if (editingProject) {
+      updateProject({ ...editingProject, name: name.trim(), description });
+    } else {
+      const newProject = await addProject({ name: name.trim(), description });
+      if (newProject) {
+        onProjectChange(newProject.id);
+      }
+    }
+
+    setShowProjectDialog(false);
+  };
+
+  const confirmDelete = () => {
+    if (!activeProject) return;
+    deleteProject(activeProject.id);
+    onProjectChange("");
+    setShowDeleteAlert(false);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex justify-start whitespace-nowrap rounded-full border-border/50"
+          >
+            <FolderKanban className="mr-1.5 h-3.5 w-3.5" />
+            {activeProject ? activeProject.name : "All projects"}
+            <ChevronDown className="ml-1 h-3.5 w-3.5 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuRadioGroup value={currentProject} onValueChange={onProjectChange}>
+            <DropdownMenuRadioItem value="">All projects</DropdownMenuRadioItem>
+            {projects.map((project) => (
+              <DropdownMenuRadioItem key={project.id} value={project.id}>
+                {project.name}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openCreateDialog}>
+            <Plus className="mr-2 h-3.5 w-3.5" />
+            New project
+          </DropdownMenuItem>
+          {activeProject && (
+            <>
+              <DropdownMenuItem onSelect={openEditDialog}>
+                <Pencil className="mr-2 h-3.5 w-3.5" />
+                Edit project
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => setShowDeleteAlert(true)}
+                className="text-red-500 focus:text-red-500"
+              >
+                <Trash2 className="mr-2 h-3.5 w-3.5" />
+                Delete project
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showProjectDialog} onOpenChange={setShowProjectDialog}>
+        <DialogContent className="sm:max-w-[425px] rounded-xl border border-border/70 shadow-xl">
+          <DialogHeader>
+            <DialogTitle>{editingProject ? "Edit Project" : "New Project"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="project-name">Name</Label>
+              <Input
+                id="project-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Project name"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-description">Description</Label>
+              <Textarea
+                id="project-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What is this project about?"
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowProjectDialog(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-task-purple hover:bg-task-purple-dark">
+                {editingProject ? "Save Project" : "Create Project"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDeleteAlert} onOpenChange={setShowDeleteAlert}>
+        <AlertDialogContent className="rounded-xl border border-border/70">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this project?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{activeProject?.name}" will be deleted. Its tasks are kept and moved out of the project.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-full">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-500 hover:bg-red-600 rounded-full">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useTaskContext } from "@/context/TaskContext";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { TaskPriority, TaskTag } from "@/types/task";
+import { matchQuickAddTags, parseQuickAdd } from "@/lib/quickAdd";
+import { TAG_COLORS } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { CalendarIcon, Loader2, Plus, Zap } from "lucide-react";
+
+interface QuickAddProps {
+  projectId?: string;
+}
+
+const priorityColors: Record<TaskPriority, string> = {
+  low: "bg-task-blue text-blue-800",
+  medium: "bg-task-yellow text-yellow-800",
+  high: "bg-task-orange text-orange-800",
+  urgent: "bg-task-red text-red-800",
+};
+
+export const QuickAdd: React.FC<QuickAddProps> = ({ projectId }) => {
+  const { addTask, addTag, tags } = useTaskContext();
+  const [input, setInput] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const parsed = parseQuickAdd(input);
+  const { matched, missing } = matchQuickAddTags(parsed.tagNames, tags);
+  const showPreview = input.trim().length > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsed.title || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const createdTags: TaskTag[] = [];
+      for (const [index, name] of missing.entries()) {
+        const tag = await addTag({
+          name,
+          color: TAG_COLORS[(tags.length + index) % TAG_COLORS.length],
+        });
+        if (tag) {
+          createdTags.push(tag);
+        }
+      }
+
+      addTask({
+        title: parsed.title,
+        description: "",
+        dueDate: parsed.dueDate ?? null,
+        priority: parsed.priority ?? "medium",
+        status: "pending",
+        tags: [...matched, ...createdTags],
+        subtasks: [],
+        blockedBy: [],
+        recurrence: null,
+        progress: 0,
+        projectId: projectId || null,
+      });
+      setInput("");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="relative flex items-center gap-2">
+        <Zap className="absolute left-3 h-4 w-4 text-task-purple" />
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder='Quick add: "Pay invoice tomorrow 5pm #work !high"'
+          aria-label="Quick add task"
+          className="pl-9 rounded-full border-border/50"
+          disabled={submitting}
+        />
+        <Button
+          type="submit"
+          size="sm"
+          className="rounded-full bg-task-purple hover:bg-task-purple-dark text-white"
+          disabled={!parsed.title || submitting}
+        >
+          {submitting ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <Plus className="h-3.5 w-3.5" />
+          )}
+          <span className="sr-only">Add task</span>
+        </Button>
+      </div>
+
+      {showPreview && (
+        <div className="flex flex-wrap items-center gap-1.5 px-3 text-xs" aria-live="polite">
+          <span className={cn("font-medium", !parsed.title && "text-muted-foreground italic")}>
+            {parsed.title || "Add a title"}
+          </span>
+          {parsed.dueDate && (
+            <Badge variant="outline" className="text-xs font-normal border-muted">
+              <CalendarIcon className="mr-1 h-3 w-3" />
+              {format(parsed.dueDate, parsed.dueDate.getHours() || parsed.dueDate.getMinutes() ? "EEE, MMM d p" : "EEE, MMM d")}
+            </Badge>
+          )}
+          {parsed.priority && (
+            <Badge className={cn(priorityColors[parsed.priority], "text-xs font-normal")}>
+              {parsed.priority}
+            </Badge>
+          )}
+          {matched.map((tag) => (
+            <Badge
+              key={tag.id}
+              className="text-xs font-normal"
+              style={{ backgroundColor: tag.color, color: "white" }}
+            >
+              {tag.name}
+            </Badge>
+          ))}
+          {missing.map((name) => (
+            <Badge key={name} variant="outline" className="text-xs font-normal border-dashed">
+              {name} (new)
+            </Badge>
+          ))}
+        </div>
+      )}
+    </form>
+  );
+};
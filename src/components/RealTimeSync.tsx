@@ -1,92 +1,91 @@
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef } from "react";
 import { useAuth } from "@/context/AuthContext";
 import { useTaskContext } from "@/context/TaskContext";
-import { useOfflineStorage } from "@/hooks/use-offline-storage";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { Task } from "@/types/task";
-import * as taskService from "@/services/taskService";
+import { TaskConflictDialog } from "@/components/TaskConflictDialog";
+import { getRecordKeys } from "@/services/syncService";
 
 export const RealTimeSync: React.FC = () => {
   const { user } = useAuth();
-  const { refetchTasks } = useTaskContext();
-  const { queue, clearQueue, isOnline } = useOfflineStorage<Task>("tasks");
-  const [syncing, setSyncing] = useState(false);
+  const {
+    pendingChanges,
+    syncing,
+    isOnline,
+    syncPendingChanges,
+    conflicts,
+    resolveConflict,
+  } = useTaskContext();
   const { toast } = useToast();
+  // Whether the user has been told about the current run of failures
+  const failureNotified = useRef(false);
+  const wasOffline = useRef(!isOnline);
 
-  // Listen for realtime events
+  // Let the user know that changes made offline are being uploaded
   useEffect(() => {
-    if (!user?.id) return;
+    if (!isOnline) {
+      wasOffline.current = true;
+      return;
+    }
 
-    // Subscribe to task changes
-    const channel = supabase
-      .channel('task-changes')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'tasks', filter: `user_id=eq.${user.id}` },
-        (payload) => {
-          console.log('Real-time change received:', payload);
-          refetchTasks();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [user?.id]);
+    if (wasOffline.current && pendingChanges.length > 0) {
+      toast({
+        title: "Syncing changes",
+        description: `Uploading ${pendingChanges.length} change${pendingChanges.length !== 1 ? 's' : ''} made while offline`,
+      });
+    }
+    wasOffline.current = false;
+  }, [isOnline]);
 
-  // Process offline queue when back online
+  // Replay the outbox whenever there is something due, and schedule the next
+  // retry for operations that are backing off
   useEffect(() => {
-    if (!isOnline || queue.length === 0 || !user?.id || syncing) return;
+    if (!isOnline || !user?.id || syncing || pendingChanges.length === 0) return;
 
     const processQueue = async () => {
-      setSyncing(true);
-      
-      toast({
-        title: "Syncing changes",
-        description: `Uploading ${queue.length} change${queue.length !== 1 ? 's' : ''} made while offline`,
-      });
-      
-      try {
-        // Process each queued operation in order
-        for (const op of queue) {
-          try {
-            if (op.type === 'create') {
-              await taskService.createTask(op.data, user.id);
-            } else if (op.type === 'update') {
-              await taskService.updateTask(op.data, user.id);
-            } else if (op.type === 'delete') {
-              await taskService.deleteTask(op.data.id, user.id);
-            }
-          } catch (error) {
-            console.error(`Error processing queued operation:`, op, error);
-          }
-        }
-        
-        await refetchTasks();
-        clearQueue();
-        
+      const { synced, failed, conflicts: conflictCount } = await syncPendingChanges();
+
+      if (conflictCount > 0) {
         toast({
-          title: "Sync complete",
-          description: "Your changes have been uploaded successfully",
+          title: "Changes need your attention",
+          description: `${conflictCount} task${conflictCount !== 1 ? 's were' : ' was'} also changed on another device.`,
         });
-      } catch (error) {
-        console.error("Error syncing offline changes:", error);
+      }
+
+      if (failed > 0 && !failureNotified.current) {
+        failureNotified.current = true;
         toast({
           title: "Sync failed",
           description: "Some changes couldn't be synchronized. Will try again later.",
           variant: "destructive",
         });
-      } finally {
-        setSyncing(false);
+      } else if (failed === 0 && synced > 0 && failureNotified.current) {
+        failureNotified.current = false;
+        toast({
+          title: "Sync complete",
+          description: "Your changes have been uploaded successfully",
+        });
       }
     };
 
-    processQueue();
-  }, [isOnline, queue, user?.id, syncing]);
+    // Only the oldest change to each record can run; later ones wait behind it,
+    // and records with an unresolved conflict wait for the merge dialog
+    const seen = new Set<string>();
+    const runnable = pendingChanges.filter((op) => {
+      const recordKeys = getRecordKeys(op);
+      if (recordKeys.some((key) => seen.has(key))) return false;
+      recordKeys.forEach((key) => seen.add(key));
+      return !conflicts.some((c) => c.operationId === op.id);
+    });
+    if (runnable.length === 0) return;
+
+    const nextAttemptAt = Math.min(...runnable.map((op) => op.nextAttemptAt));
+    const delay = Math.max(nextAttemptAt - Date.now(), 0);
+    const timer = setTimeout(processQueue, delay);
+
+    return () => clearTimeout(timer);
+  }, [isOnline, pendingChanges, user?.id, syncing, conflicts]);
 
-  // Render nothing - this is a background component
-  return null;
+  // Otherwise a background component; only conflicts need the user
+  return <TaskConflictDialog conflict={conflicts[0] || null} onResolve={resolveConflict} />;
 };
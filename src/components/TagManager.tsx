@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useTaskContext } from "@/context/TaskContext";
+import { TaskTag } from "@/types/task";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TAG_COLORS, findTagByName } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { Check, GitMerge, MoreHorizontal, Trash2 } from "lucide-react";
+
+interface TagManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called when a tag goes away, with the tag that replaced it when it was merged
+  onTagRemoved?: (tagId: string, replacementId?: string) => void;
+}
+
+// A delete or merge waiting for confirmation
+type PendingAction =
+  | { type: "delete"; tag: TaskTag }
+  | { type: "merge"; tag: TaskTag; target: TaskTag };
+
+interface TagRowProps {
+  tag: TaskTag;
+  taskCount: number;
+  otherTags: TaskTag[];
+  onRequest: (action: PendingAction) => void;
+}
+
+const TagRow: React.FC<TagRowProps> = ({ tag, taskCount, otherTags, onRequest }) => {
+  const { tags, updateTag } = useTaskContext();
+  const [name, setName] = useState(tag.name);
+
+  // Follow renames made elsewhere, e.g. on another device
+  useEffect(() => {
+    setName(tag.name);
+  }, [tag.name]);
+
+  const duplicate = findTagByName(tags, name, tag.id);
+
+  const saveName = () => {
+    const trimmed = name.trim();
+    if (!trimmed || duplicate) {
+      setName(tag.name);
+      return;
+    }
+    if (trimmed !== tag.name) {
+      updateTag({ ...tag, name: trimmed });
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Popover>
+          <PopoverTrigger asChild>
+            <button
+              type="button"
+              className="h-7 w-7 shrink-0 rounded-full border border-border/50 shadow-sm"
+              style={{ backgroundColor: tag.color }}
+              aria-label={`Change color of ${tag.name}`}
+            />
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-2" align="start">
+            <div className="flex gap-1.5">
+              {TAG_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  className="flex h-7 w-7 items-center justify-center rounded-full"
+                  style={{ backgroundColor: color }}
+                  onClick={() => color !== tag.color && updateTag({ ...tag, color })}
+                  aria-label={color}
+                >
+                  {color === tag.color && <Check className="h-3.5 w-3.5 text-white" />}
+                </button>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={saveName}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+            if (e.key === "Escape") setName(tag.name);
+          }}
+          className={cn("h-8", duplicate && "border-red-500 focus-visible:ring-red-500")}
+          aria-label="Tag name"
+        />
+
+        <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">
+          {taskCount} task{taskCount !== 1 ? "s" : ""}
+        </span>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger disabled={otherTags.length === 0}>
+                <GitMerge className="mr-2 h-3.5 w-3.5" />
+                Merge into
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {otherTags.map((target) => (
+                  <DropdownMenuItem key={target.id} onSelect={() => onRequest({ type: "merge", tag, target })}>
+                    <span className="mr-2 h-2.5 w-2.5 rounded-full" style={{ backgroundColor: target.color }} />
+                    {target.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={() => onRequest({ type: "delete", tag })}
+              className="text-red-500 focus:text-red-500"
+            >
+              <Trash2 className="mr-2 h-3.5 w-3.5" />
+              Delete tag
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      {duplicate && (
+        <p className="pl-9 text-xs text-red-500">
+          "{duplicate.name}" already exists. Merge the two tags instead.
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Rename, recolor, delete and merge tags
+export const TagManager: React.FC<TagManagerProps> = ({ open, onOpenChange, onTagRemoved }) => {
+  const { tags, tasks, deleteTag, mergeTags } = useTaskContext();
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  const countTasks = (tagId: string) => tasks.filter((t) => t.tags.some((tag) => tag.id === tagId)).length;
+
+  const confirm = () => {
+    if (!pending) return;
+    if (pending.type === "delete") {
+      deleteTag(pending.tag.id);
+      onTagRemoved?.(pending.tag.id);
+    } else {
+      mergeTags(pending.tag.id, pending.target.id);
+      onTagRemoved?.(pending.tag.id, pending.target.id);
+    }
+    setPending(null);
+  };
+
+  const pendingCount = pending ? countTasks(pending.tag.id) : 0;
+  const pendingTasks = `${pendingCount} task${pendingCount !== 1 ? "s" : ""}`;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[480px] rounded-xl border border-border/70 shadow-xl">
+          <DialogHeader>
+            <DialogTitle>Manage tags</DialogTitle>
+            <DialogDescription>Rename or recolor tags, or merge duplicates into one.</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto pr-1">
+            {tags.length === 0 && <p className="text-sm text-muted-foreground">No tags yet.</p>}
+            {tags.map((tag) => (
+              <TagRow
+                key={tag.id}
+                tag={tag}
+                taskCount={countTasks(tag.id)}
+                otherTags={tags.filter((t) => t.id !== tag.id)}
+                onRequest={setPending}
+              />
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pending} onOpenChange={(isOpen) => !isOpen && setPending(null)}>
+        <AlertDialogContent className="rounded-xl border border-border/70">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.type === "merge" ? `Merge "${pending.tag.name}" into "${pending.target.name}"?` : `Delete "${pending?.tag.name}"?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.type === "merge"
+                ? `${pendingTasks} will be tagged "${pending.target.name}" instead, and "${pending.tag.name}" will be deleted.`
+                : `The tag will be removed from ${pendingTasks}. The tasks themselves are kept.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="rounded-full">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirm}
+              className={cn(
+                "rounded-full",
+                pending?.type === "merge" ? "bg-task-purple hover:bg-task-purple-dark" : "bg-red-500 hover:bg-red-600"
+              )}
+            >
+              {pending?.type === "merge" ? "Merge" : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -0,0 +1,188 @@
+import { useEffect, useRef, useState } from "react";
+import { useTaskContext } from "@/context/TaskContext";
+import { TaskCard } from "@/components/TaskCard";
+import { TaskForm } from "@/components/TaskForm";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Task, TaskStatus } from "@/types/task";
+import { filterTasks } from "@/lib/taskFilters";
+import { parseTaskQuery } from "@/lib/taskQuery";
+import { useServerSearch } from "@/hooks/use-server-search";
+import { cn } from "@/lib/utils";
+import { useIsMobile } from "@/hooks/use-mobile";
+
+interface TaskBoardProps {
+  projectId?: string;
+  filter?: string;
+  searchQuery?: string;
+  statusFilter?: TaskStatus | "all";
+  showAiPrioritized?: boolean;
+}
+
+const BOARD_COLUMNS: { status: TaskStatus; title: string; accent: string }[] = [
+  { status: "pending", title: "Pending", accent: "bg-task-yellow" },
+  { status: "in-progress", title: "In Progress", accent: "bg-task-blue" },
+  { status: "completed", title: "Completed", accent: "bg-green-400" },
+];
+
+// Data transfer type used to carry the dragged task id
+const DRAG_TYPE = "application/x-kairo-task";
+
+export const TaskBoard: React.FC<TaskBoardProps> = ({
+  projectId,
+  filter,
+  searchQuery = "",
+  statusFilter = "all",
+  showAiPrioritized = false,
+}) => {
+  const { tasks: allTasks, getAiPrioritizedTasks, setTaskStatus } = useTaskContext();
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [focusTaskId, setFocusTaskId] = useState<string | null>(null);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const isMobile = useIsMobile();
+
+  // Free text of the search, without its filter terms
+  const searchText = parseTaskQuery(searchQuery).text;
+  const serverMatchIds = useServerSearch(searchText);
+
+  const displayedTasks = filterTasks(
+    showAiPrioritized ? getAiPrioritizedTasks() : allTasks,
+    { projectId, tagId: filter, status: statusFilter, searchQuery, serverMatchIds }
+  );
+
+  // Keep keyboard focus on a card after it moved to another column
+  useEffect(() => {
+    if (!focusTaskId) return;
+    const card = cardRefs.current[focusTaskId];
+    if (card) {
+      card.focus();
+      setFocusTaskId(null);
+    }
+  }, [allTasks, focusTaskId]);
+
+  const moveTask = (task: Task, status: TaskStatus) => {
+    if (task.status === status) return;
+    setTaskStatus(task.id, status);
+    const column = BOARD_COLUMNS.find((c) => c.status === status);
+    setAnnouncement(`Moved "${task.title}" to ${column?.title}.`);
+  };
+
+  const handleDragStart = (e: React.DragEvent, task: Task) => {
+    e.dataTransfer.setData(DRAG_TYPE, task.id);
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDragOver = (e: React.DragEvent, status: TaskStatus) => {
+    if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setDropTarget(status);
+  };
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatus) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const task = allTasks.find((t) => t.id === e.dataTransfer.getData(DRAG_TYPE));
+    if (task) {
+      moveTask(task, status);
+    }
+  };
+
+  // Arrow keys move the focused card between neighbouring columns
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    if (e.target !== e.currentTarget) return;
+
+    const columnIndex = BOARD_COLUMNS.findIndex((c) => c.status === task.status);
+    if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      e.preventDefault();
+      const target = BOARD_COLUMNS[columnIndex + (e.key === "ArrowLeft" ? -1 : 1)];
+      if (target) {
+        setFocusTaskId(task.id);
+        moveTask(task, target.status);
+      }
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      setSelectedTask(task);
+    }
+  };
+
+  return (
+    <>
+      <div className={cn("grid gap-4", isMobile ? "grid-cols-1" : "grid-cols-3")}>
+        {BOARD_COLUMNS.map((column) => {
+          const columnTasks = displayedTasks.filter((t) => t.status === column.status);
+          return (
+            <section
+              key={column.status}
+              aria-label={column.title}
+              className={cn(
+                "rounded-xl border border-border/50 bg-muted/30 p-3 min-h-[200px] transition-colors",
+                dropTarget === column.status && "border-task-purple bg-task-purple/5"
+              )}
+              onDragOver={(e) => handleDragOver(e, column.status)}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(e, column.status)}
+            >
+              <header className="flex items-center gap-2 mb-3">
+                <span className={cn("h-2 w-2 rounded-full", column.accent)} />
+                <h3 className="text-sm font-medium">{column.title}</h3>
+                <Badge variant="outline" className="ml-auto text-xs font-normal border-muted">
+                  {columnTasks.length}
+                </Badge>
+              </header>
+
+              {columnTasks.map((task) => (
+                <div
+                  key={task.id}
+                  ref={(el) => (cardRefs.current[task.id] = el)}
+                  draggable
+                  tabIndex={0}
+                  aria-roledescription="Draggable task"
+                  aria-label={`${task.title}. Use left and right arrow keys to move between columns.`}
+                  className="rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-task-purple"
+                  onDragStart={(e) => handleDragStart(e, task)}
+                  onDragEnd={() => setDropTarget(null)}
+                  onKeyDown={(e) => handleCardKeyDown(e, task)}
+                >
+                  <TaskCard task={task} onClick={() => setSelectedTask(task)} highlight={searchText} />
+                </div>
+              ))}
+
+              {columnTasks.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-6">
+                  Drop tasks here
+                </p>
+              )}
+            </section>
+          );
+        })}
+      </div>
+
+      <div aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      <Dialog open={!!selectedTask} onOpenChange={() => setSelectedTask(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Edit Task</DialogTitle>
+          </DialogHeader>
+          {selectedTask && (
+            <TaskForm
+              task={selectedTask}
+              onComplete={() => setSelectedTask(null)}
+              isEditMode
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,252 @@
+import { useState } from "react";
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { useTaskContext } from "@/context/TaskContext";
+import { TaskForm } from "@/components/TaskForm";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Task, TaskPriority, TaskStatus } from "@/types/task";
+import { filterTasks } from "@/lib/taskFilters";
+import { parseTaskQuery } from "@/lib/taskQuery";
+import { useServerSearch } from "@/hooks/use-server-search";
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface TaskCalendarProps {
+  projectId?: string;
+  filter?: string;
+  searchQuery?: string;
+  statusFilter?: TaskStatus | "all";
+}
+
+type CalendarMode = "month" | "week";
+
+const priorityBorders: Record<TaskPriority, string> = {
+  low: "border-l-task-blue",
+  medium: "border-l-task-yellow",
+  high: "border-l-task-orange",
+  urgent: "border-l-task-red",
+};
+
+const WEEKDAY_HEADERS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Data transfer type used to carry the dragged task id
+const DRAG_TYPE = "application/x-kairo-task";
+
+const isOverdue = (task: Task) =>
+  !!task.dueDate && task.status !== "completed" && new Date(task.dueDate) < startOfDay(new Date());
+
+export const TaskCalendar: React.FC<TaskCalendarProps> = ({
+  projectId,
+  filter,
+  searchQuery = "",
+  statusFilter = "all",
+}) => {
+  const { tasks: allTasks, updateTask } = useTaskContext();
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [cursor, setCursor] = useState(new Date());
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const serverMatchIds = useServerSearch(parseTaskQuery(searchQuery).text);
+
+  const filteredTasks = filterTasks(allTasks, {
+    projectId,
+    tagId: filter,
+    status: statusFilter,
+    searchQuery,
+    serverMatchIds,
+  });
+  const scheduledTasks = filteredTasks.filter((t) => t.dueDate);
+  const unscheduledCount = filteredTasks.length - scheduledTasks.length;
+
+  const days = mode === "month"
+    ? eachDayOfInterval({
+        start: startOfWeek(startOfMonth(cursor)),
+        end: endOfWeek(endOfMonth(cursor)),
+      })
+    : eachDayOfInterval({ start: startOfWeek(cursor), end: endOfWeek(cursor) });
+
+  const title = mode === "month"
+    ? format(cursor, "MMMM yyyy")
+    : `${format(startOfWeek(cursor), "MMM d")} – ${format(endOfWeek(cursor), "MMM d, yyyy")}`;
+
+  const navigate = (direction: -1 | 1) => {
+    setCursor((prev) => (mode === "month" ? addMonths(prev, direction) : addWeeks(prev, direction)));
+  };
+
+  // Move the task to another day, keeping the time of day it was due at
+  const rescheduleTask = (task: Task, day: Date) => {
+    const previous = new Date(task.dueDate);
+    if (isSameDay(previous, day)) return;
+
+    const dueDate = new Date(day);
+    dueDate.setHours(previous.getHours(), previous.getMinutes(), previous.getSeconds(), 0);
+    updateTask({ ...task, dueDate });
+  };
+
+  const handleDragStart = (e: React.DragEvent, task: Task) => {
+    e.dataTransfer.setData(DRAG_TYPE, task.id);
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDragOver = (e: React.DragEvent, dayKey: string) => {
+    if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setDropTarget(dayKey);
+  };
+
+  const handleDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const task = allTasks.find((t) => t.id === e.dataTransfer.getData(DRAG_TYPE));
+    if (task) {
+      rescheduleTask(task, day);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 rounded-full border-border/50"
+            onClick={() => navigate(-1)}
+            aria-label={mode === "month" ? "Previous month" : "Previous week"}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 rounded-full border-border/50"
+            onClick={() => navigate(1)}
+            aria-label={mode === "month" ? "Next month" : "Next week"}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-full border-border/50"
+            onClick={() => setCursor(new Date())}
+          >
+            Today
+          </Button>
+          <h3 className="ml-2 text-sm font-medium">{title}</h3>
+          <Tabs
+            value={mode}
+            onValueChange={(value) => setMode(value as CalendarMode)}
+            className="ml-auto"
+          >
+            <TabsList className="h-8 rounded-full bg-muted/50 p-1">
+              <TabsTrigger value="month" className="rounded-full text-xs">Month</TabsTrigger>
+              <TabsTrigger value="week" className="rounded-full text-xs">Week</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="grid grid-cols-7 gap-px rounded-xl overflow-hidden border border-border/50 bg-border/50">
+          {WEEKDAY_HEADERS.map((weekday) => (
+            <div key={weekday} className="bg-background px-2 py-1 text-xs font-medium text-muted-foreground">
+              {weekday}
+            </div>
+          ))}
+
+          {days.map((day) => {
+            const dayKey = format(day, "yyyy-MM-dd");
+            const dayTasks = scheduledTasks.filter((t) => isSameDay(new Date(t.dueDate), day));
+            return (
+              <div
+                key={dayKey}
+                className={cn(
+                  "bg-background p-1.5 transition-colors",
+                  mode === "month" ? "min-h-[96px]" : "min-h-[240px]",
+                  mode === "month" && !isSameMonth(day, cursor) && "bg-muted/30 text-muted-foreground",
+                  dropTarget === dayKey && "bg-task-purple/10"
+                )}
+                onDragOver={(e) => handleDragOver(e, dayKey)}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => handleDrop(e, day)}
+              >
+                <div
+                  className={cn(
+                    "mb-1 flex h-6 w-6 items-center justify-center rounded-full text-xs",
+                    isToday(day) && "bg-task-purple text-white"
+                  )}
+                >
+                  {format(day, "d")}
+                </div>
+                <div className="space-y-1">
+                  {dayTasks.map((task) => (
+                    <button
+                      key={task.id}
+                      type="button"
+                      draggable
+                      onDragStart={(e) => handleDragStart(e, task)}
+                      onDragEnd={() => setDropTarget(null)}
+                      onClick={() => setSelectedTask(task)}
+                      title={isOverdue(task) ? `${task.title} (overdue)` : task.title}
+                      className={cn(
+                        "block w-full truncate rounded border-l-4 px-1.5 py-0.5 text-left text-xs shadow-sm",
+                        priorityBorders[task.priority],
+                        isOverdue(task)
+                          ? "bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-200"
+                          : "bg-accent/60",
+                        task.status === "completed" && "line-through opacity-60"
+                      )}
+                    >
+                      {task.title}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {unscheduledCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {unscheduledCount} task{unscheduledCount !== 1 ? "s" : ""} without a due date not shown.
+          </p>
+        )}
+      </div>
+
+      <Dialog open={!!selectedTask} onOpenChange={() => setSelectedTask(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Edit Task</DialogTitle>
+          </DialogHeader>
+          {selectedTask && (
+            <TaskForm
+              task={selectedTask}
+              onComplete={() => setSelectedTask(null)}
+              isEditMode
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -7,13 +7,25 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { Check, Clock, Edit, Trash2, Sparkles } from "lucide-react";
+import { Check, Clock, Edit, Trash2, Sparkles, ListChecks, Repeat, Lock, Link2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getBlockedTasks, getBlockingTasks } from "@/lib/dependencies";
+import { findMatchRanges } from "@/lib/search";
 
 interface TaskCardProps {
   task: Task;
   onClick?: () => void;
+  // Search text whose matches are highlighted
+  highlight?: string;
+  // Bulk selection; the checkbox only shows while hovering until something is
+  // selected, after which clicking the card selects it too
+  selected?: boolean;
+  selectionMode?: boolean;
+  onSelect?: (event: React.MouseEvent) => void;
 }
 
 const priorityColors: Record<TaskPriority, string> = {
@@ -30,8 +42,40 @@ const priorityBorders: Record<TaskPriority, string> = {
   urgent: "border-l-task-red",
 };
 
-export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick }) => {
-  const { toggleTaskStatus, deleteTask } = useTaskContext();
+// Number of checklist items shown on the card before collapsing the rest
+const MAX_VISIBLE_SUBTASKS = 4;
+
+// Text with the parts matched by a search marked
+const HighlightedText: React.FC<{ text?: string; search?: string }> = ({ text, search }) => {
+  if (!text) return null;
+
+  const ranges = search ? findMatchRanges(text, search) : [];
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-task-purple/20 px-0.5 text-inherit">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+};
+
+export const TaskCard: React.FC<TaskCardProps> = ({
+  task,
+  onClick,
+  highlight,
+  selected = false,
+  selectionMode = false,
+  onSelect,
+}) => {
+  const { tasks, toggleTaskStatus, deleteTask, toggleSubtask } = useTaskContext();
   const [showDeleteAlert, setShowDeleteAlert] = useState(false);
 
   const handleToggleStatus = (e: React.MouseEvent) => {
@@ -55,16 +99,21 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick }) => {
   };
 
   const isCompletedClass = task.status === "completed" ? "opacity-70" : "";
+  const subtasks = task.subtasks || [];
+  const completedSubtasks = subtasks.filter((s) => s.completed).length;
+  const blockers = task.status !== "completed" ? getBlockingTasks(task, tasks) : [];
+  const blockedTasks = getBlockedTasks(task.id, tasks).filter((t) => t.status !== "completed");
   
   return (
     <>
       <Card 
         className={cn(
-          "mb-3 transition-all duration-200 hover:shadow hover:translate-y-[-2px] cursor-pointer animate-fade-in border-l-4 rounded-lg overflow-hidden",
+          "group mb-3 transition-all duration-200 hover:shadow hover:translate-y-[-2px] cursor-pointer animate-fade-in border-l-4 rounded-lg overflow-hidden",
           priorityBorders[task.priority],
-          isCompletedClass
+          isCompletedClass,
+          selected && "ring-2 ring-task-purple"
         )}
-        onClick={onClick}
+        onClick={selectionMode && onSelect ? onSelect : onClick}
       >
         <CardContent className="p-4">
           {task.status === "completed" && (
@@ -72,19 +121,35 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick }) => {
           )}
           
           <div className="flex justify-between items-start mb-2">
-            <div>
-              <h3 className={cn(
-                "text-lg font-medium line-clamp-1", 
-                task.status === "completed" && "line-through text-muted-foreground"
-              )}>
-                {task.title}
-              </h3>
-              <p className={cn(
-                "text-sm text-muted-foreground line-clamp-2 mb-2",
-                task.status === "completed" && "line-through"
-              )}>
-                {task.description}
-              </p>
+            <div className="flex items-start gap-2">
+              {onSelect && (
+                <Checkbox
+                  checked={selected}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSelect(e);
+                  }}
+                  className={cn(
+                    "mt-1.5 shrink-0",
+                    !selectionMode && "md:opacity-0 md:group-hover:opacity-100 focus-visible:opacity-100"
+                  )}
+                  aria-label={`Select "${task.title}"`}
+                />
+              )}
+              <div>
+                <h3 className={cn(
+                  "text-lg font-medium line-clamp-1", 
+                  task.status === "completed" && "line-through text-muted-foreground"
+                )}>
+                  <HighlightedText text={task.title} search={highlight} />
+                </h3>
+                <p className={cn(
+                  "text-sm text-muted-foreground line-clamp-2 mb-2",
+                  task.status === "completed" && "line-through"
+                )}>
+                  <HighlightedText text={task.description} search={highlight} />
+                </p>
+              </div>
             </div>
             <div className="flex items-center space-x-1">
               <Button
@@ -121,6 +186,57 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick }) => {
             </div>
           </div>
           
+          {(blockers.length > 0 || blockedTasks.length > 0) && (
+            <div className="mb-3 flex flex-wrap gap-2">
+              {blockers.length > 0 && (
+                <Badge
+                  variant="outline"
+                  className="flex items-center gap-1 border-red-300 text-red-600 text-xs font-normal"
+                  title={`Waiting on: ${blockers.map((b) => b.title).join(", ")}`}
+                >
+                  <Lock className="h-3 w-3" />
+                  Blocked by {blockers.length === 1 ? `"${blockers[0].title}"` : `${blockers.length} tasks`}
+                </Badge>
+              )}
+              {blockedTasks.length > 0 && (
+                <Badge
+                  variant="outline"
+                  className="flex items-center gap-1 border-muted text-muted-foreground text-xs font-normal"
+                  title={`Blocks: ${blockedTasks.map((t) => t.title).join(", ")}`}
+                >
+                  <Link2 className="h-3 w-3" />
+                  Blocks {blockedTasks.length} task{blockedTasks.length !== 1 ? "s" : ""}
+                </Badge>
+              )}
+            </div>
+          )}
+          
+          {subtasks.length > 0 && (
+            <div className="mb-3 space-y-1" onClick={(e) => e.stopPropagation()}>
+              <div className="text-xs text-muted-foreground flex items-center">
+                <ListChecks className="h-3 w-3 mr-1" />
+                {completedSubtasks}/{subtasks.length} done
+              </div>
+              {subtasks.slice(0, MAX_VISIBLE_SUBTASKS).map((subtask) => (
+                <label key={subtask.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={subtask.completed}
+                    onCheckedChange={() => toggleSubtask(task.id, subtask.id)}
+                    className="h-3.5 w-3.5"
+                  />
+                  <span className={cn("line-clamp-1", subtask.completed && "line-through text-muted-foreground")}>
+                    {subtask.title}
+                  </span>
+                </label>
+              ))}
+              {subtasks.length > MAX_VISIBLE_SUBTASKS && (
+                <div className="text-xs text-muted-foreground pl-5">
+                  +{subtasks.length - MAX_VISIBLE_SUBTASKS} more
+                </div>
+              )}
+            </div>
+          )}
+          
           {task.progress !== undefined && task.progress > 0 && (
             <Progress 
               value={task.progress} 
@@ -138,7 +254,7 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick }) => {
                 style={{ backgroundColor: tag.color, color: "white" }} 
                 className="shadow-sm text-xs font-normal px-2 py-0.5"
               >
-                {tag.name}
+                <HighlightedText text={tag.name} search={highlight} />
               </Badge>
             ))}
             
@@ -153,27 +269,50 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick }) => {
                   <span className="text-xs">{format(new Date(task.dueDate), "MMM d")}</span>
                 </Badge>
               )}
+              
+              {task.recurrence && (
+                <Badge
+                  variant="outline"
+                  className="flex items-center gap-1 shadow-sm border-muted"
+                  title={describeRecurrence(task.recurrence)}
+                >
+                  <Repeat className="h-3 w-3 text-muted-foreground" />
+                  <span className="sr-only">{describeRecurrence(task.recurrence)}</span>
+                </Badge>
+              )}
             </div>
           </div>
           
           {task.aiScore !== undefined && (
-            <div className="mt-3 flex items-center">
-              <div className="text-xs text-muted-foreground flex items-center">
-                <Sparkles className="h-3 w-3 mr-1 text-task-purple" />
-                AI Priority
-              </div>
-              <div 
-                className="ml-2 h-1.5 flex-1 bg-gray-200 rounded-full overflow-hidden"
-              >
-                <div 
-                  className="h-full bg-gradient-to-r from-task-purple to-task-purple-dark" 
-                  style={{ width: `${task.aiScore}%` }}
-                />
-              </div>
-              <div className="ml-2 text-xs font-medium">
-                {task.aiScore}%
-              </div>
-            </div>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <div
+                  className="mt-3 flex items-center"
+                  aria-label={task.aiRationale ? `AI priority ${task.aiScore}%: ${task.aiRationale}` : undefined}
+                >
+                  <div className="text-xs text-muted-foreground flex items-center">
+                    <Sparkles className="h-3 w-3 mr-1 text-task-purple" />
+                    AI Priority
+                  </div>
+                  <div 
+                    className="ml-2 h-1.5 flex-1 bg-gray-200 rounded-full overflow-hidden"
+                  >
+                    <div 
+                      className="h-full bg-gradient-to-r from-task-purple to-task-purple-dark" 
+                      style={{ width: `${task.aiScore}%` }}
+                    />
+                  </div>
+                  <div className="ml-2 text-xs font-medium">
+                    {task.aiScore}%
+                  </div>
+                </div>
+              </TooltipTrigger>
+              {task.aiRationale && (
+                <TooltipContent className="max-w-xs text-xs">
+                  {task.aiRationale}
+                </TooltipContent>
+              )}
+            </Tooltip>
           )}
         </CardContent>
       </Card>
@@ -183,7 +322,7 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onClick }) => {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete this task?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete "{task.title}".
+              This will delete "{task.title}". You can undo it from the notification or with Ctrl+Z (⌘Z on a Mac).
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
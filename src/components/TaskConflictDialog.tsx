@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Task } from "@/types/task";
+import {
+  ConflictField,
+  TaskConflict,
+  getConflictingFields,
+  mergeConflict,
+} from "@/services/syncService";
+import { cn } from "@/lib/utils";
+
+interface TaskConflictDialogProps {
+  conflict: TaskConflict | null;
+  // Null discards this device's edits
+  onResolve: (conflict: TaskConflict, resolved: Task | null) => void;
+}
+
+type ConflictSide = "local" | "remote";
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  title: "Title",
+  description: "Description",
+  status: "Status",
+  tags: "Tags",
+};
+
+const renderValue = (task: Task, field: ConflictField) => {
+  if (field === "tags") {
+    if (task.tags.length === 0) {
+      return <span className="text-muted-foreground italic">No tags</span>;
+    }
+    return (
+      <span className="flex flex-wrap gap-1">
+        {task.tags.map((tag) => (
+          <Badge
+            key={tag.id}
+            className="text-xs font-normal"
+            style={{ backgroundColor: tag.color, color: "white" }}
+          >
+            {tag.name}
+          </Badge>
+        ))}
+      </span>
+    );
+  }
+
+  const value = task[field];
+  if (!value) {
+    return <span className="text-muted-foreground italic">Empty</span>;
+  }
+  return <span className="whitespace-pre-wrap break-words">{value}</span>;
+};
+
+// Field-by-field merge of a task that was edited on this device and on another
+// one at the same time
+export const TaskConflictDialog: React.FC<TaskConflictDialogProps> = ({ conflict, onResolve }) => {
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, ConflictSide>>>({});
+
+  // Start from this device's version whenever a new conflict comes up
+  useEffect(() => {
+    setChoices({});
+  }, [conflict?.operationId]);
+
+  if (!conflict) return null;
+
+  const { local, remote } = conflict;
+  if (!remote) {
+    return (
+      <Dialog open>
+        <DialogContent
+          className="sm:max-w-[480px] rounded-xl border border-border/70"
+          onInteractOutside={(e) => e.preventDefault()}
+          onEscapeKeyDown={(e) => e.preventDefault()}
+        >
+          <DialogHeader>
+            <DialogTitle>"{local.title}" was deleted on another device</DialogTitle>
+            <DialogDescription>
+              You changed it on this device before it was deleted. Keep your version to
+              restore it, or discard your changes.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => onResolve(conflict, null)}>
+              Discard my changes
+            </Button>
+            <Button
+              className="bg-task-purple hover:bg-task-purple-dark text-white"
+              onClick={() => onResolve(conflict, local)}
+            >
+              Keep mine
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  const fields = getConflictingFields({ local, remote });
+
+  const resolve = (selected: Partial<Record<ConflictField, ConflictSide>>) => {
+    onResolve(conflict, mergeConflict({ local, remote }, selected));
+  };
+
+  const chooseAll = (side: ConflictSide) => {
+    resolve(Object.fromEntries(fields.map((field) => [field, side])));
+  };
+
+  return (
+    <Dialog open>
+      <DialogContent
+        className="sm:max-w-[560px] rounded-xl border border-border/70"
+        // The conflict has to be resolved before the edit can be synced
+        onInteractOutside={(e) => e.preventDefault()}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>"{local.title}" was changed on another device</DialogTitle>
+          <DialogDescription>
+            The other version was saved {format(new Date(remote.updatedAt), "PPp")}.
+            Choose which version to keep for each field.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {fields.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Only other details differ. Your version will be kept.
+            </p>
+          )}
+          {fields.map((field) => {
+            const selected = choices[field] || "local";
+            return (
+              <div key={field} className="space-y-2">
+                <Label className="text-sm font-medium">{FIELD_LABELS[field]}</Label>
+                <RadioGroup
+                  value={selected}
+                  onValueChange={(value) => setChoices({ ...choices, [field]: value as ConflictSide })}
+                  className="grid grid-cols-2 gap-2"
+                >
+                  {(["local", "remote"] as ConflictSide[]).map((side) => (
+                    <Label
+                      key={side}
+                      htmlFor={`${field}-${side}`}
+                      className={cn(
+                        "flex cursor-pointer flex-col gap-2 rounded-lg border p-3 text-sm font-normal",
+                        selected === side ? "border-task-purple bg-task-purple/5" : "border-border/50"
+                      )}
+                    >
+                      <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <RadioGroupItem id={`${field}-${side}`} value={side} />
+                        {side === "local" ? "This device" : "Other device"}
+                      </span>
+                      {renderValue(side === "local" ? local : remote, field)}
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {fields.length > 0 && (
+            <>
+              <Button variant="outline" onClick={() => chooseAll("remote")}>
+                Keep other version
+              </Button>
+              <Button variant="outline" onClick={() => chooseAll("local")}>
+                Keep mine
+              </Button>
+            </>
+          )}
+          <Button
+            className="bg-task-purple hover:bg-task-purple-dark text-white"
+            onClick={() => resolve(choices)}
+          >
+            Save merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
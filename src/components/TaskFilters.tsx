@@ -6,10 +6,32 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TaskStatus } from "@/types/task";
-import { Search, Filter, X } from "lucide-react";
+import { Bookmark, BookmarkPlus, Search, Filter, Settings2, Trash2, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { TagManager } from "@/components/TagManager";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TASK_QUERY_HELP, parseTaskQuery, quoteQueryValue } from "@/lib/taskQuery";
+import { SavedView } from "@/types/task";
+
+// Lets the "/" shortcut focus the search box
+export const TASK_SEARCH_INPUT_ID = "task-search";
 
 interface TaskFiltersProps {
   onFilterChange: (tagId: string) => void;
@@ -30,9 +52,14 @@ export const TaskFilters: React.FC<TaskFiltersProps> = ({
   currentStatus,
   aiPrioritized,
 }) => {
-  const { tags } = useTaskContext();
+  const { tags, savedViews, saveView, deleteView } = useTaskContext();
   const [searchQuery, setSearchQuery] = useState("");
   const [isOpen, setIsOpen] = useState(false);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [showSaveView, setShowSaveView] = useState(false);
+  const [viewName, setViewName] = useState("");
+
+  const queryErrors = parseTaskQuery(searchQuery).errors;
   const isMobile = useIsMobile();
 
   useEffect(() => {
@@ -46,6 +73,42 @@ export const TaskFilters: React.FC<TaskFiltersProps> = ({
     onFilterChange(currentFilter === tagId ? "" : tagId);
   };
 
+  // Keep the tag filter pointing at a tag that still exists
+  const handleTagRemoved = (tagId: string, replacementId?: string) => {
+    if (currentFilter === tagId) {
+      onFilterChange(replacementId || "");
+    }
+  };
+
+  // Everything currently filtered on, written as one query
+  const buildCurrentQuery = () => {
+    const tagName = tags.find((tag) => tag.id === currentFilter)?.name;
+    return [
+      tagName && `tag:${quoteQueryValue(tagName)}`,
+      currentStatus !== "all" && `status:${currentStatus}`,
+      searchQuery.trim(),
+    ].filter(Boolean).join(" ");
+  };
+
+  // A view's query replaces the tag and status chips
+  const applyView = (view: SavedView) => {
+    onFilterChange("");
+    onStatusFilterChange("all");
+    setSearchQuery(view.query);
+  };
+
+  const handleSaveView = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!viewName.trim()) return;
+
+    const query = buildCurrentQuery();
+    const view = await saveView({ name: viewName.trim(), query });
+    if (view) {
+      applyView(view);
+    }
+    setShowSaveView(false);
+  };
+
   const handleStatusChange = (status: string) => {
     onStatusFilterChange(status as TaskStatus | "all");
   };
@@ -64,7 +127,8 @@ export const TaskFilters: React.FC<TaskFiltersProps> = ({
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
         <Input
-          placeholder="Search tasks..."
+          id={TASK_SEARCH_INPUT_ID}
+          placeholder="Search tasks or filter, e.g. tag:work due:<7d"
           className={cn(
             "pl-9 pr-9 w-full rounded-full bg-background border-border/50 focus-visible:ring-task-purple",
             isMobile && "h-11 text-base"
@@ -83,6 +147,11 @@ export const TaskFilters: React.FC<TaskFiltersProps> = ({
           </Button>
         )}
       </div>
+      {queryErrors.length > 0 && (
+        <p className="px-3 text-xs text-red-500">
+          Couldn't read {queryErrors.map((term) => `"${term}"`).join(", ")}. See Filters for the search syntax.
+        </p>
+      )}
 
       <div className="flex gap-2 items-center">
         <Collapsible open={isOpen} onOpenChange={setIsOpen} className="w-full">
@@ -102,6 +171,55 @@ export const TaskFilters: React.FC<TaskFiltersProps> = ({
               </Button>
             </CollapsibleTrigger>
             
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={cn("rounded-full border-border/50", isMobile && "h-10 text-sm px-4")}
+                >
+                  <Bookmark className="h-3.5 w-3.5 mr-1.5" />
+                  Views
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-64">
+                {savedViews.length > 0 && (
+                  <>
+                    <DropdownMenuLabel className="text-xs text-muted-foreground">Saved views</DropdownMenuLabel>
+                    {savedViews.map((view) => (
+                      <DropdownMenuItem key={view.id} onSelect={() => applyView(view)} className="group">
+                        <span className={cn("flex-1 truncate", searchQuery === view.query && "font-medium text-task-purple")}>
+                          {view.name}
+                        </span>
+                        <button
+                          type="button"
+                          className="ml-2 text-muted-foreground opacity-0 hover:text-red-500 group-hover:opacity-100 group-focus:opacity-100"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteView(view.id);
+                          }}
+                          aria-label={`Delete view ${view.name}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                  </>
+                )}
+                <DropdownMenuItem
+                  disabled={!buildCurrentQuery()}
+                  onSelect={() => {
+                    setViewName("");
+                    setShowSaveView(true);
+                  }}
+                >
+                  <BookmarkPlus className="mr-2 h-3.5 w-3.5" />
+                  Save current filters
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
             {currentFilter && (
               <Badge 
                 className="bg-task-purple shadow-sm flex items-center gap-1 px-3"
@@ -124,6 +242,23 @@ export const TaskFilters: React.FC<TaskFiltersProps> = ({
           </div>
 
           <CollapsibleContent className="mt-3 space-y-3 animate-scale-in">
+            <div>
+              <h4 className="text-sm font-medium mb-2 text-muted-foreground">Search syntax</h4>
+              <div className="grid gap-1 text-xs sm:grid-cols-2">
+                {TASK_QUERY_HELP.map(({ example, description }) => (
+                  <button
+                    key={example}
+                    type="button"
+                    className="flex items-baseline gap-2 rounded px-1 py-0.5 text-left hover:bg-muted/50"
+                    onClick={() => setSearchQuery([searchQuery.trim(), example].filter(Boolean).join(" "))}
+                  >
+                    <code className="shrink-0 text-task-purple">{example}</code>
+                    <span className="text-muted-foreground">{description}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div>
               <h4 className="text-sm font-medium mb-2 text-muted-foreground">Filter by status</h4>
               <Tabs
@@ -144,7 +279,18 @@ export const TaskFilters: React.FC<TaskFiltersProps> = ({
             </div>
 
             <div>
-              <h4 className="text-sm font-medium mb-2 text-muted-foreground">Filter by tag</h4>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-muted-foreground">Filter by tag</h4>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 rounded-full px-2 text-xs text-muted-foreground"
+                  onClick={() => setShowTagManager(true)}
+                >
+                  <Settings2 className="h-3.5 w-3.5 mr-1" />
+                  Manage tags
+                </Button>
+              </div>
               <div className="flex flex-wrap gap-2">
                 {tags.map((tag) => (
                   <Badge
@@ -169,6 +315,39 @@ export const TaskFilters: React.FC<TaskFiltersProps> = ({
           </CollapsibleContent>
         </Collapsible>
       </div>
+
+      <Dialog open={showSaveView} onOpenChange={setShowSaveView}>
+        <DialogContent className="sm:max-w-[425px] rounded-xl border border-border/70 shadow-xl">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaveView} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                placeholder="e.g. Work this week"
+                required
+              />
+              <p className="text-xs text-muted-foreground break-words">
+                Filters: <code>{buildCurrentQuery()}</code>
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowSaveView(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-task-purple hover:bg-task-purple-dark">
+                Save View
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <TagManager open={showTagManager} onOpenChange={setShowTagManager} onTagRemoved={handleTagRemoved} />
     </div>
   );
 };
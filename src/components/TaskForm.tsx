@@ -2,7 +2,7 @@
 import { useEffect, useState } from "react";
 import { format } from "date-fns";
 import { useTaskContext } from "@/context/TaskContext";
-import { Task, TaskPriority, TaskTag } from "@/types/task";
+import { RecurrenceFrequency, RecurrenceRule, Subtask, Task, TaskPriority, TaskTag } from "@/types/task";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -20,17 +20,27 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { CalendarIcon } from "lucide-react";
+import { CalendarIcon, Link2, Plus, Repeat, X } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { cn } from "@/lib/utils";
+import { getSubtaskProgress } from "@/lib/subtasks";
+import { describeRecurrence, formatRRule, parseRRule } from "@/lib/recurrence";
+import { findDependencyCycle, getBlockedTasks } from "@/lib/dependencies";
+import { v4 as uuidv4 } from 'uuid';
 
 interface TaskFormProps {
   task?: Task;
   onComplete: () => void;
   isEditMode?: boolean;
+  defaultProjectId?: string;
 }
 
+const WEEKDAY_INITIALS = ["S", "M", "T", "W", "T", "F", "S"];
+
+type RecurrenceMode = RecurrenceFrequency | "none" | "custom";
+
 const initialTask: Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore"> = {
   title: "",
   description: "",
@@ -38,22 +48,41 @@ const initialTask: Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore"> = {
   priority: "medium",
   status: "pending",
   tags: [],
+  subtasks: [],
+  blockedBy: [],
+  recurrence: null,
   progress: 0,
+  projectId: null,
 };
 
 export const TaskForm: React.FC<TaskFormProps> = ({
   task,
   onComplete,
   isEditMode = false,
+  defaultProjectId,
 }) => {
-  const { addTask, updateTask, tags: availableTags } = useTaskContext();
+  const { tasks, addTask, updateTask, tags: availableTags, projects } = useTaskContext();
   const [formData, setFormData] = useState<Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore">>(
     task ? {
       ...task,
       dueDate: task.dueDate,
       tags: task.tags
-    } : initialTask
+    } : { ...initialTask, projectId: defaultProjectId || null }
+  );
+
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState("");
+  const hasSubtasks = !!formData.subtasks && formData.subtasks.length > 0;
+  const [recurrenceMode, setRecurrenceMode] = useState<RecurrenceMode>(
+    task?.recurrence ? task.recurrence.frequency : "none"
+  );
+  const [customRRule, setCustomRRule] = useState(
+    task?.recurrence ? formatRRule(task.recurrence) : ""
   );
+  const [dependencyError, setDependencyError] = useState("");
+
+  // A task can't wait on itself; everything else is a candidate blocker
+  const candidateBlockers = tasks.filter((t) => t.id !== task?.id);
+  const blockedTasks = task ? getBlockedTasks(task.id, tasks) : [];
 
   useEffect(() => {
     if (task) {
@@ -62,6 +91,8 @@ export const TaskForm: React.FC<TaskFormProps> = ({
         dueDate: task.dueDate,
         tags: task.tags
       });
+      setRecurrenceMode(task.recurrence ? task.recurrence.frequency : "none");
+      setCustomRRule(task.recurrence ? formatRRule(task.recurrence) : "");
     }
   }, [task]);
 
@@ -82,6 +113,13 @@ export const TaskForm: React.FC<TaskFormProps> = ({
     });
   };
 
+  const handleProjectChange = (value: string) => {
+    setFormData({
+      ...formData,
+      projectId: value === "none" ? null : value,
+    });
+  };
+
   const handleDateChange = (date: Date | undefined) => {
     setFormData({
       ...formData,
@@ -89,6 +127,73 @@ export const TaskForm: React.FC<TaskFormProps> = ({
     });
   };
 
+  const setRecurrence = (recurrence: RecurrenceRule | null) => {
+    setFormData({
+      ...formData,
+      recurrence,
+    });
+  };
+
+  const handleRecurrenceModeChange = (value: string) => {
+    const mode = value as RecurrenceMode;
+    setRecurrenceMode(mode);
+
+    if (mode === "none") {
+      setRecurrence(null);
+      return;
+    }
+
+    if (mode === "custom") {
+      const rrule = formData.recurrence ? formatRRule(formData.recurrence) : "FREQ=WEEKLY";
+      setCustomRRule(rrule);
+      setRecurrence(parseRRule(rrule));
+      return;
+    }
+
+    // Anchor weekly and monthly rules on the due date (or today)
+    const anchor = formData.dueDate ? new Date(formData.dueDate) : new Date();
+    setRecurrence({
+      frequency: mode,
+      interval: formData.recurrence?.interval || 1,
+      byWeekday: mode === "weekly" ? [anchor.getDay()] : undefined,
+      byMonthDay: mode === "monthly" ? anchor.getDate() : undefined,
+    });
+  };
+
+  const handleIntervalChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!formData.recurrence) return;
+    const interval = Math.max(1, parseInt(e.target.value, 10) || 1);
+    setRecurrence({ ...formData.recurrence, interval });
+  };
+
+  const handleWeekdayToggle = (day: number) => {
+    if (!formData.recurrence) return;
+    const current = formData.recurrence.byWeekday || [];
+    const byWeekday = current.includes(day)
+      ? current.filter((d) => d !== day)
+      : [...current, day].sort();
+
+    // A weekly rule needs at least one weekday
+    if (byWeekday.length === 0) return;
+    setRecurrence({ ...formData.recurrence, byWeekday });
+  };
+
+  const handleCustomRRuleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCustomRRule(e.target.value);
+    setRecurrence(parseRRule(e.target.value));
+  };
+
+  const handleBlockerToggle = (blockerId: string) => {
+    const blockedBy = formData.blockedBy || [];
+    setDependencyError("");
+    setFormData({
+      ...formData,
+      blockedBy: blockedBy.includes(blockerId)
+        ? blockedBy.filter((id) => id !== blockerId)
+        : [...blockedBy, blockerId],
+    });
+  };
+
   const handleProgressChange = (value: number[]) => {
     setFormData({
       ...formData,
@@ -113,6 +218,49 @@ export const TaskForm: React.FC<TaskFormProps> = ({
     }
   };
 
+  const updateSubtasks = (subtasks: Subtask[]) => {
+    const progress = getSubtaskProgress(subtasks);
+    setFormData({
+      ...formData,
+      subtasks,
+      // Keep the manual progress when the last checklist item is removed
+      progress: progress ?? formData.progress,
+    });
+  };
+
+  const handleAddSubtask = () => {
+    const title = newSubtaskTitle.trim();
+    if (!title) return;
+
+    updateSubtasks([...(formData.subtasks || []), { id: uuidv4(), title, completed: false }]);
+    setNewSubtaskTitle("");
+  };
+
+  const handleSubtaskKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleAddSubtask();
+    }
+  };
+
+  const handleSubtaskToggle = (subtaskId: string) => {
+    updateSubtasks(
+      (formData.subtasks || []).map((s) =>
+        s.id === subtaskId ? { ...s, completed: !s.completed } : s
+      )
+    );
+  };
+
+  const handleSubtaskTitleChange = (subtaskId: string, title: string) => {
+    updateSubtasks(
+      (formData.subtasks || []).map((s) => (s.id === subtaskId ? { ...s, title } : s))
+    );
+  };
+
+  const handleRemoveSubtask = (subtaskId: string) => {
+    updateSubtasks((formData.subtasks || []).filter((s) => s.id !== subtaskId));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -120,11 +268,32 @@ export const TaskForm: React.FC<TaskFormProps> = ({
       alert("Task title is required");
       return;
     }
+
+    if (recurrenceMode === "custom" && !formData.recurrence) {
+      alert("Recurrence rule is not valid");
+      return;
+    }
+
+    // New tasks can't be part of a cycle since nothing depends on them yet
+    if (isEditMode && task) {
+      const cycle = findDependencyCycle(task.id, formData.blockedBy || [], tasks);
+      if (cycle) {
+        const titles = cycle.map((id) =>
+          id === task.id ? formData.title : tasks.find((t) => t.id === id)?.title || "Unknown task"
+        );
+        setDependencyError(`This would create a dependency cycle: ${titles.join(" → ")}`);
+        return;
+      }
+    }
+
+    // Drop checklist items that were left empty
+    const subtasks = (formData.subtasks || []).filter((s) => s.title.trim());
+    const submittedData = { ...formData, subtasks };
     
     if (isEditMode && task) {
-      updateTask({ ...task, ...formData });
+      updateTask({ ...task, ...submittedData });
     } else {
-      addTask(formData);
+      addTask(submittedData);
     }
     
     onComplete();
@@ -156,6 +325,28 @@ export const TaskForm: React.FC<TaskFormProps> = ({
         />
       </div>
 
+      {projects.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="project">Project</Label>
+          <Select
+            value={formData.projectId || "none"}
+            onValueChange={handleProjectChange}
+          >
+            <SelectTrigger id="project">
+              <SelectValue placeholder="Select project" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No project</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <div className="space-y-2">
         <Label htmlFor="dueDate">Due Date</Label>
         <Popover>
@@ -187,6 +378,78 @@ export const TaskForm: React.FC<TaskFormProps> = ({
         </Popover>
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="recurrence">Repeat</Label>
+        <Select value={recurrenceMode} onValueChange={handleRecurrenceModeChange}>
+          <SelectTrigger id="recurrence">
+            <SelectValue placeholder="Does not repeat" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+            <SelectItem value="yearly">Yearly</SelectItem>
+            <SelectItem value="custom">Custom (RRULE)</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {recurrenceMode !== "none" && recurrenceMode !== "custom" && formData.recurrence && (
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Every</span>
+            <Input
+              type="number"
+              min={1}
+              value={formData.recurrence.interval}
+              onChange={handleIntervalChange}
+              className="h-8 w-16"
+              aria-label="Repeat interval"
+            />
+            <span className="text-muted-foreground">
+              {{ daily: "day(s)", weekly: "week(s)", monthly: "month(s)", yearly: "year(s)" }[recurrenceMode]}
+            </span>
+          </div>
+        )}
+
+        {recurrenceMode === "weekly" && formData.recurrence && (
+          <div className="flex gap-1">
+            {WEEKDAY_INITIALS.map((initial, day) => {
+              const isSelected = formData.recurrence.byWeekday?.includes(day);
+              return (
+                <Button
+                  key={day}
+                  type="button"
+                  size="icon"
+                  variant={isSelected ? "default" : "outline"}
+                  className={cn("h-8 w-8 rounded-full text-xs", isSelected && "bg-task-purple hover:bg-task-purple-dark")}
+                  onClick={() => handleWeekdayToggle(day)}
+                  aria-pressed={isSelected}
+                >
+                  {initial}
+                </Button>
+              );
+            })}
+          </div>
+        )}
+
+        {recurrenceMode === "custom" && (
+          <Input
+            value={customRRule}
+            onChange={handleCustomRRuleChange}
+            placeholder="FREQ=MONTHLY;BYMONTHDAY=1"
+            className="h-8 font-mono text-xs"
+            aria-label="Recurrence rule"
+          />
+        )}
+
+        {recurrenceMode !== "none" && (
+          <p className={cn("text-xs flex items-center", formData.recurrence ? "text-muted-foreground" : "text-red-500")}>
+            <Repeat className="h-3 w-3 mr-1" />
+            {formData.recurrence ? describeRecurrence(formData.recurrence) : "Not a valid recurrence rule"}
+          </p>
+        )}
+      </div>
+
       <div className="space-y-2">
         <Label htmlFor="priority">Priority</Label>
         <Select
@@ -206,16 +469,138 @@ export const TaskForm: React.FC<TaskFormProps> = ({
       </div>
       
       <div className="space-y-2">
-        <Label>Task Progress ({formData.progress}%)</Label>
+        <Label>
+          Task Progress ({formData.progress}%)
+          {hasSubtasks && (
+            <span className="ml-1 font-normal text-muted-foreground">· from checklist</span>
+          )}
+        </Label>
         <Slider
           defaultValue={[formData.progress || 0]}
           value={[formData.progress || 0]}
           max={100}
           step={5}
           onValueChange={handleProgressChange}
+          disabled={hasSubtasks}
         />
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="new-subtask">Checklist</Label>
+        {hasSubtasks && (
+          <div className="space-y-1.5">
+            {formData.subtasks.map((subtask) => (
+              <div key={subtask.id} className="flex items-center gap-2">
+                <Checkbox
+                  checked={subtask.completed}
+                  onCheckedChange={() => handleSubtaskToggle(subtask.id)}
+                  aria-label={`Mark "${subtask.title}" as done`}
+                />
+                <Input
+                  value={subtask.title}
+                  onChange={(e) => handleSubtaskTitleChange(subtask.id, e.target.value)}
+                  className={cn("h-8", subtask.completed && "line-through text-muted-foreground")}
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0 rounded-full"
+                  onClick={() => handleRemoveSubtask(subtask.id)}
+                  aria-label={`Remove "${subtask.title}"`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Input
+            id="new-subtask"
+            value={newSubtaskTitle}
+            onChange={(e) => setNewSubtaskTitle(e.target.value)}
+            onKeyDown={handleSubtaskKeyDown}
+            placeholder="Add a checklist item"
+            className="h-8"
+          />
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            className="h-8 w-8 shrink-0 rounded-full"
+            onClick={handleAddSubtask}
+            aria-label="Add checklist item"
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {candidateBlockers.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="blocked-by">Blocked by</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                id="blocked-by"
+                variant="outline"
+                className={cn(
+                  "w-full justify-start text-left font-normal",
+                  !formData.blockedBy?.length && "text-muted-foreground"
+                )}
+              >
+                <Link2 className="mr-2 h-4 w-4" />
+                {formData.blockedBy?.length
+                  ? `${formData.blockedBy.length} task${formData.blockedBy.length !== 1 ? "s" : ""}`
+                  : "No blockers"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-2 pointer-events-auto" align="start">
+              <div className="max-h-60 overflow-y-auto space-y-1">
+                {candidateBlockers.map((candidate) => (
+                  <label
+                    key={candidate.id}
+                    className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-accent"
+                  >
+                    <Checkbox
+                      checked={formData.blockedBy?.includes(candidate.id)}
+                      onCheckedChange={() => handleBlockerToggle(candidate.id)}
+                    />
+                    <span className={cn("line-clamp-1", candidate.status === "completed" && "line-through text-muted-foreground")}>
+                      {candidate.title}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </PopoverContent>
+          </Popover>
+          {formData.blockedBy && formData.blockedBy.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {formData.blockedBy.map((blockerId) => (
+                <Badge
+                  key={blockerId}
+                  variant="outline"
+                  className="cursor-pointer"
+                  onClick={() => handleBlockerToggle(blockerId)}
+                >
+                  {tasks.find((t) => t.id === blockerId)?.title || "Unknown task"}
+                  <X className="h-3 w-3 ml-1" />
+                </Badge>
+              ))}
+            </div>
+          )}
+          {blockedTasks.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Blocks: {blockedTasks.map((t) => t.title).join(", ")}
+            </p>
+          )}
+          {dependencyError && (
+            <p className="text-xs text-red-500">{dependencyError}</p>
+          )}
+        </div>
+      )}
+
       <div className="space-y-2">
         <Label>Tags</Label>
         <div className="flex flex-wrap gap-2">
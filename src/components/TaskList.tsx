@@ -2,6 +2,7 @@
 import { useState } from "react";
 import { useTaskContext } from "@/context/TaskContext";
 import { TaskCard } from "@/components/TaskCard";
+import { BulkActionBar } from "@/components/BulkActionBar";
 import {
   Dialog,
   DialogContent,
@@ -11,8 +12,13 @@ import {
 import { TaskForm } from "@/components/TaskForm";
 import { Task, TaskStatus } from "@/types/task";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { filterTasks } from "@/lib/taskFilters";
+import { parseTaskQuery } from "@/lib/taskQuery";
+import { useServerSearch } from "@/hooks/use-server-search";
+import { BulkTaskChange } from "@/lib/bulkEdit";
 
 interface TaskListProps {
+  projectId?: string;
   filter?: string;
   searchQuery?: string;
   statusFilter?: TaskStatus | "all";
@@ -20,61 +26,29 @@ interface TaskListProps {
 }
 
 export const TaskList: React.FC<TaskListProps> = ({
+  projectId,
   filter,
   searchQuery = "",
   statusFilter = "all",
   showAiPrioritized = false,
 }) => {
-  const { tasks: allTasks, getAiPrioritizedTasks } = useTaskContext();
+  const { tasks: allTasks, getAiPrioritizedTasks, bulkUpdateTasks, bulkDeleteTasks } = useTaskContext();
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  // Tasks picked for a bulk action, and the one a shift-click range starts from
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
   const isMobile = useIsMobile();
 
-  const filteredTasks = allTasks.filter((task) => {
-    // Tag filter
-    if (filter && !task.tags.some((tag) => tag.id === filter)) {
-      return false;
-    }
-    
-    // Status filter
-    if (statusFilter !== "all" && task.status !== statusFilter) {
-      return false;
-    }
-    
-    // Search query
-    if (
-      searchQuery &&
-      !task.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
-      !task.description.toLowerCase().includes(searchQuery.toLowerCase())
-    ) {
-      return false;
-    }
-    
-    return true;
-  });
-  
+  // Free text of the search, without its filter terms
+  const searchText = parseTaskQuery(searchQuery).text;
+  const serverMatchIds = useServerSearch(searchText);
+  const criteria = { projectId, tagId: filter, status: statusFilter, searchQuery, serverMatchIds };
+
   // Use AI prioritized tasks or regular filtered tasks
-  const displayedTasks = showAiPrioritized 
-    ? getAiPrioritizedTasks().filter(task => {
-        // Apply the same filters to AI prioritized tasks
-        if (filter && !task.tags.some((tag) => tag.id === filter)) {
-          return false;
-        }
-        
-        if (statusFilter !== "all" && task.status !== statusFilter) {
-          return false;
-        }
-        
-        if (
-          searchQuery &&
-          !task.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
-          !task.description.toLowerCase().includes(searchQuery.toLowerCase())
-        ) {
-          return false;
-        }
-        
-        return true;
-      })
-    : filteredTasks;
+  const displayedTasks = filterTasks(
+    showAiPrioritized ? getAiPrioritizedTasks() : allTasks,
+    criteria
+  );
 
   const handleTaskClick = (task: Task) => {
     setSelectedTask(task);
@@ -84,13 +58,52 @@ export const TaskList: React.FC<TaskListProps> = ({
     setSelectedTask(null);
   };
 
+  // Only tasks that are still shown take part in bulk actions
+  const selectedTasks = displayedTasks.filter((task) => selectedIds.has(task.id));
+
+  // Click toggles one task; shift-click selects everything between it and the last one clicked
+  const handleSelect = (task: Task, event: React.MouseEvent) => {
+    const anchorIndex = displayedTasks.findIndex((t) => t.id === selectionAnchor);
+    const index = displayedTasks.findIndex((t) => t.id === task.id);
+
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (event.shiftKey && anchorIndex !== -1) {
+        const range = displayedTasks.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+        range.forEach((t) => next.add(t.id));
+      } else if (next.has(task.id)) {
+        next.delete(task.id);
+      } else {
+        next.add(task.id);
+      }
+      return next;
+    });
+    setSelectionAnchor(task.id);
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setSelectionAnchor(null);
+  };
+
+  const handleBulkApply = (change: BulkTaskChange) => {
+    bulkUpdateTasks(selectedTasks.map((task) => task.id), change);
+  };
+
+  const handleBulkDelete = () => {
+    bulkDeleteTasks(selectedTasks.map((task) => task.id));
+    clearSelection();
+  };
+
   if (displayedTasks.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center p-8 text-center">
         <div className="text-6xl mb-4">🔍</div>
         <h3 className="text-xl font-medium mb-2">No tasks found</h3>
         <p className="text-muted-foreground">
-          {filter
+          {projectId && !filter && !searchQuery
+            ? "No tasks in this project yet. Create a task to get started."
+            : filter
             ? "No tasks with this tag. Try a different filter or create a new task."
             : searchQuery
             ? "No tasks match your search. Try different keywords."
@@ -102,9 +115,28 @@ export const TaskList: React.FC<TaskListProps> = ({
 
   return (
     <>
+      {selectedTasks.length > 0 && (
+        <BulkActionBar
+          selectedCount={selectedTasks.length}
+          filteredCount={displayedTasks.length}
+          onSelectAll={() => setSelectedIds(new Set(displayedTasks.map((task) => task.id)))}
+          onClearSelection={clearSelection}
+          onApply={handleBulkApply}
+          onDelete={handleBulkDelete}
+        />
+      )}
+
       <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3'}`}>
         {displayedTasks.map((task) => (
-          <TaskCard key={task.id} task={task} onClick={() => handleTaskClick(task)} />
+          <TaskCard
+            key={task.id}
+            task={task}
+            onClick={() => handleTaskClick(task)}
+            highlight={searchText}
+            selected={selectedIds.has(task.id)}
+            selectionMode={selectedTasks.length > 0}
+            onSelect={(event) => handleSelect(task, event)}
+          />
         ))}
       </div>
 
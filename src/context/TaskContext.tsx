@@ -1,152 +1,206 @@
 
-import React, { createContext, useState, useContext, useEffect, ReactNode } from "react";
-import { Task, TaskPriority, TaskStatus, TaskTag } from "@/types/task";
+import React, { createContext, useState, useCallback, useContext, useEffect, useMemo, useRef, ReactNode } from "react";
+import { SavedView, Task, TaskPriority, TaskProject, TaskStatus, TaskTag } from "@/types/task";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { useAuth } from "@/context/AuthContext";
 import * as taskService from "@/services/taskService";
+import * as syncService from "@/services/syncService";
+import { SyncEntity, SyncOperation, SyncRecord, SyncResult, TaskConflict } from "@/services/syncService";
+import { QueuedOperationType, useOfflineStorage } from "@/hooks/use-offline-storage";
+import { restoreTaskReferences, useUndoHistory } from "@/hooks/use-undo-history";
+import { TaskRepository, createLocalRepository, createSupabaseRepository } from "@/services/taskRepository";
+import { applySubtaskProgress, setAllSubtasks } from "@/lib/subtasks";
+import { NewTask, handOverRecurrence, withStatus } from "@/lib/taskStatus";
+import { getBlockedTasks, getBlockingTasks, isTaskBlocked, removeDependency } from "@/lib/dependencies";
+import { explainAiScore } from "@/lib/scoring";
+import { withUpdatedTag, withoutTag } from "@/lib/tags";
+import { BulkTaskChange, applyBulkChange, countTasks } from "@/lib/bulkEdit";
 import { v4 as uuidv4 } from 'uuid';
 
-// Predefined tags
-export const DEFAULT_TAGS: TaskTag[] = [
-  { id: "work", name: "Work", color: "#5C95FF" },
-  { id: "personal", name: "Personal", color: "#6ECB63" },
-  { id: "urgent", name: "Urgent", color: "#FF884B" },
-  { id: "shopping", name: "Shopping", color: "#FFCB42" },
-  { id: "health", name: "Health", color: "#ea384c" },
-];
+// An action on a single task, offered by the command palette
+export interface TaskCommand {
+  id: string;
+  label: string;
+  group: "status" | "priority" | "task";
+  // Should be confirmed before running, like deleting from a task card
+  destructive?: boolean;
+  run: () => void;
+}
 
 interface TaskContextProps {
   tasks: Task[];
   addTask: (task: Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore">) => void;
   updateTask: (updatedTask: Task) => void;
   deleteTask: (taskId: string) => void;
+  // Change or delete many tasks in one batch, with a single undo
+  bulkUpdateTasks: (taskIds: string[], change: BulkTaskChange, options?: { force?: boolean }) => void;
+  bulkDeleteTasks: (taskIds: string[]) => void;
+  // Step back and forth through task changes made in this session
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   getTaskById: (taskId: string) => Task | undefined;
   tags: TaskTag[];
-  addTag: (tag: Omit<TaskTag, "id">) => void;
+  addTag: (tag: Omit<TaskTag, "id">) => Promise<TaskTag | undefined>;
+  updateTag: (tag: TaskTag) => void;
+  deleteTag: (tagId: string) => void;
+  // Move every task from one tag onto another, then delete the first tag
+  mergeTags: (sourceTagId: string, targetTagId: string) => void;
+  projects: TaskProject[];
+  addProject: (project: Omit<TaskProject, "id">) => Promise<TaskProject | undefined>;
+  updateProject: (project: TaskProject) => void;
+  deleteProject: (projectId: string) => void;
+  // Ids of tasks the server's full-text search finds (none in guest mode)
+  searchTaskIds: (text: string) => Promise<string[]>;
+  // Named filter queries
+  savedViews: SavedView[];
+  saveView: (view: Omit<SavedView, "id">) => Promise<SavedView | undefined>;
+  deleteView: (viewId: string) => void;
   getAiPrioritizedTasks: () => Task[];
-  toggleTaskStatus: (taskId: string) => void;
+  getTaskCommands: (taskId: string) => TaskCommand[];
+  toggleTaskStatus: (taskId: string, options?: { force?: boolean }) => void;
+  setTaskStatus: (taskId: string, status: TaskStatus, options?: { force?: boolean }) => void;
   updateTaskProgress: (taskId: string, progress: number) => void;
+  toggleSubtask: (taskId: string, subtaskId: string) => void;
+  prioritizeWithAi: () => Promise<void>;
+  aiPrioritizing: boolean;
   loading: boolean;
   refetchTasks: () => Promise<void>;
+  // Reload tasks, tags and projects
+  reloadData: () => Promise<void>;
+  // Changes saved on this device that the server hasn't acknowledged yet
+  pendingChanges: SyncOperation[];
+  syncing: boolean;
+  isOnline: boolean;
+  syncPendingChanges: () => Promise<SyncResult>;
+  // Queued edits rejected because the task changed or was deleted on another device
+  conflicts: TaskConflict[];
+  // Pass null to discard this device's edits, e.g. of a task deleted elsewhere
+  resolveConflict: (conflict: TaskConflict, resolved: Task | null) => Promise<void>;
 }
 
 const TaskContext = createContext<TaskContextProps | undefined>(undefined);
 
-// Local storage keys
-const LOCAL_STORAGE_TASKS_KEY = "kairo_guest_tasks";
-const LOCAL_STORAGE_TAGS_KEY = "kairo_guest_tags";
-
 export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [tags, setTags] = useState<TaskTag[]>([]);
+  const [projects, setProjects] = useState<TaskProject[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
   const [loading, setLoading] = useState(true);
+  const [aiPrioritizing, setAiPrioritizing] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const [conflicts, setConflicts] = useState<TaskConflict[]>([]);
+  const conflictsRef = useRef<TaskConflict[]>([]);
+  // Last updated_at seen from the server for each task, used as the base version of edits
+  const serverVersions = useRef(new Map<string, number>());
+  // What this device last wrote for each task, so realtime echoes of it can be skipped
+  const ownWrites = useRef(new Map<string, { version: number; tagIds: string[]; blockedBy: string[] }>());
+  // Version of this device's last write of a task that another device has since
+  // written over. Undo and redo are checked against it, so they conflict instead
+  // of silently discarding the other device's edit.
+  const overwrittenVersions = useRef(new Map<string, number>());
+  const tagsRef = useRef<TaskTag[]>([]);
+  tagsRef.current = tags;
+  // Latest tasks for undo and redo, which can run from an older toast
+  const tasksRef = useRef<Task[]>([]);
+  tasksRef.current = tasks;
+  const projectsRef = useRef<TaskProject[]>([]);
+  projectsRef.current = projects;
+  const realtimeHandler = useRef<(change: taskService.RealtimeChange) => void>(() => {});
   const { toast } = useToast();
   const { user, isAuthenticated, isGuest } = useAuth();
+  // Every change made while signed in goes through this outbox, one per account
+  const outbox = useOfflineStorage<SyncRecord>(`sync:${user?.id || "anonymous"}`);
+  const history = useUndoHistory();
+
+  // Lets the repository reach the outbox without being recreated on every render
+  const queueChangeRef = useRef<
+    (type: QueuedOperationType, entity: SyncEntity, data: SyncRecord, baseVersion?: number) => Promise<void>
+  >(async () => {});
 
-  // Fetch tasks and tags whenever the authenticated user changes or guest mode changes
+  // Where data is loaded from and changes are saved to, chosen once per auth state
+  const repository = useMemo<TaskRepository | null>(() => {
+    if (isGuest) return createLocalRepository();
+    if (!user?.id) return null;
+    return createSupabaseRepository({
+      userId: user.id,
+      enqueue: (...args) => queueChangeRef.current(...args),
+      getBaseVersion: (taskId) => serverVersions.current.get(taskId),
+    });
+  }, [isGuest, user?.id]);
+
+  // Load tasks, tags and projects whenever the repository changes. Waits for the
+  // outbox so pending changes can be laid over the loaded data.
   useEffect(() => {
-    if (isGuest) {
-      loadLocalData();
-    } else if (user?.id) {
-      fetchUserData();
-    } else if (!isAuthenticated) {
-      // Clear tasks when not authenticated and not in guest mode
-      setTasks([]);
-      setTags([]);
-      setLoading(false);
+    if (!repository) {
+      if (!isAuthenticated) {
+        // Clear tasks when not authenticated and not in guest mode
+        setTasks([]);
+        setTags([]);
+        setProjects([]);
+        setSavedViews([]);
+        setLoading(false);
+      }
+    } else if (outbox.ready) {
+      loadData();
     }
-  }, [user?.id, isAuthenticated, isGuest]);
+  }, [repository, isAuthenticated, outbox.ready]);
+
+  // Changes can only be undone in the storage they were made in
+  useEffect(() => {
+    history.clear();
+  }, [repository]);
 
-  // Set up realtime subscription for task updates (only when authenticated)
+  // Keep a copy of the data on the device for offline use
+  useEffect(() => {
+    if (!repository || loading) return;
+
+    repository.saveSnapshot({ tasks, tags, projects, views: savedViews }).catch((error) => {
+      console.error("Error caching data for offline use:", error);
+    });
+  }, [tasks, tags, projects, savedViews, repository, loading]);
+
+  // Set up realtime subscription for task updates (only when authenticated).
+  // Changes are applied one by one; a reconnect refetches what was missed.
   useEffect(() => {
     if (!user?.id || isGuest) return;
     
-    const unsubscribe = taskService.setupTasksSubscription(user.id, fetchUserData);
+    const unsubscribe = taskService.setupTasksSubscription(
+      user.id,
+      (change) => realtimeHandler.current(change),
+      () => refetchTasks()
+    );
     
     return () => {
       unsubscribe();
     };
   }, [user?.id, isGuest]);
 
-  // Load data from local storage for guest mode
-  const loadLocalData = () => {
+  const loadData = async () => {
+    if (!repository) return;
+
     setLoading(true);
     try {
-      // Load tasks from localStorage
-      const storedTasks = localStorage.getItem(LOCAL_STORAGE_TASKS_KEY);
-      if (storedTasks) {
-        setTasks(JSON.parse(storedTasks));
-      } else {
-        setTasks([]);
-      }
-      
-      // Load tags from localStorage
-      const storedTags = localStorage.getItem(LOCAL_STORAGE_TAGS_KEY);
-      if (storedTags) {
-        setTags(JSON.parse(storedTags));
-      } else {
-        // Initialize with default tags
-        setTags(DEFAULT_TAGS.map(tag => ({
-          ...tag,
-          id: uuidv4() // Generate unique IDs for guest mode
-        })));
-        // Save default tags to localStorage
-        localStorage.setItem(LOCAL_STORAGE_TAGS_KEY, JSON.stringify(DEFAULT_TAGS));
-      }
-    } catch (error) {
-      console.error("Error loading local data:", error);
-      // Reset to defaults
-      setTasks([]);
-      setTags(DEFAULT_TAGS);
-    } finally {
-      setLoading(false);
-    }
-  };
+      const data = await repository.load();
+      if (!data.fromCache) rememberServerVersions(data.tasks);
 
-  // Save tasks to localStorage (for guest mode)
-  const saveTasksToLocalStorage = (updatedTasks: Task[]) => {
-    if (isGuest) {
-      localStorage.setItem(LOCAL_STORAGE_TASKS_KEY, JSON.stringify(updatedTasks));
-    }
-  };
-
-  // Save tags to localStorage (for guest mode)
-  const saveTagsToLocalStorage = (updatedTags: TaskTag[]) => {
-    if (isGuest) {
-      localStorage.setItem(LOCAL_STORAGE_TAGS_KEY, JSON.stringify(updatedTags));
-    }
-  };
+      const pending = getPendingOperations();
+      setTasks(syncService.applyPendingOperations(data.tasks, "task", pending));
+      setTags(syncService.applyPendingOperations(data.tags, "tag", pending));
+      setProjects(syncService.applyPendingOperations(data.projects, "project", pending));
+      setSavedViews(syncService.applyPendingOperations(data.views, "view", pending));
 
-  const fetchUserData = async () => {
-    if (!user?.id) return;
-    
-    setLoading(true);
-    try {
-      // Fetch tasks
-      const userTasks = await taskService.fetchTasks(user.id);
-      setTasks(userTasks);
-      
-      // Fetch tags
-      const userTags = await taskService.fetchTags(user.id);
-      
-      // If user has no tags yet, create default tags
-      if (userTags.length === 0) {
-        await Promise.all(
-          DEFAULT_TAGS.map(async (tag) => {
-            await taskService.createTag({
-              name: tag.name,
-              color: tag.color,
-            }, user.id);
-          })
-        );
-        // Fetch tags again after creating defaults
-        const freshTags = await taskService.fetchTags(user.id);
-        setTags(freshTags);
-      } else {
-        setTags(userTags);
+      if (data.fromCache) {
+        toast({
+          title: "Working offline",
+          description: "Showing the data saved on this device. Changes will sync when you're back online.",
+        });
       }
     } catch (error: any) {
-      console.error("Error fetching user data:", error);
+      console.error("Error loading data:", error);
       toast({
         title: "Failed to load data",
         description: error.message,
@@ -158,16 +212,12 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const refetchTasks = async () => {
-    if (isGuest) {
-      loadLocalData();
-      return;
-    }
-    
-    if (!user?.id) return;
+    if (!repository) return;
     
     try {
-      const userTasks = await taskService.fetchTasks(user.id);
-      setTasks(userTasks);
+      const freshTasks = await repository.loadTasks();
+      rememberServerVersions(freshTasks);
+      setTasks(syncService.applyPendingOperations(freshTasks, "task", getPendingOperations()));
     } catch (error: any) {
       console.error("Error refetching tasks:", error);
       toast({
@@ -178,175 +228,559 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const addTask = async (task: Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore">) => {
-    // Handle guest mode
-    if (isGuest) {
-      const now = new Date();
-      const newTask: Task = {
-        ...task,
-        id: uuidv4(),
-        createdAt: now,
-        updatedAt: now,
-        aiScore: calculateAiScoreForGuest(task),
-      };
-      
-      const updatedTasks = [...tasks, newTask];
-      setTasks(updatedTasks);
-      saveTasksToLocalStorage(updatedTasks);
-      
-      toast({
-        title: "Task added",
-        description: `"${task.title}" has been added to your tasks.`,
-      });
-      return;
-    }
-    
-    // Handle authenticated mode
-    if (!user?.id) return;
-    
-    try {
-      const aiScore = taskService.calculateAiScore(task);
-      const newTask = await taskService.createTask({
-        ...task,
-        aiScore
-      }, user.id);
-      
-      // Optimistically update the UI
-      setTasks((prevTasks) => [...prevTasks, newTask]);
-      
-      toast({
-        title: "Task added",
-        description: `"${task.title}" has been added to your tasks.`,
-      });
-    } catch (error: any) {
-      console.error("Error adding task:", error);
+  // Stable per repository, so server searches only rerun when the text changes
+  const searchTaskIds = useCallback(
+    async (text: string) => (repository ? repository.searchTaskIds(text) : []),
+    [repository]
+  );
+
+  // Hand a change that is already applied to state over to the repository
+  const persist = (change: Promise<void>) => {
+    change.catch((error) => {
+      console.error("Error saving change:", error);
       toast({
-        title: "Failed to add task",
+        title: "Failed to save changes",
         description: error.message,
         variant: "destructive",
       });
+    });
+  };
+
+  const getPendingOperations = () => outbox.getQueue() as SyncOperation[];
+
+  const rememberServerVersions = (serverTasks: Task[]) => {
+    serverVersions.current = new Map(serverTasks.map((t) => [t.id, new Date(t.updatedAt).getTime()]));
+  };
+
+  const updateConflicts = (updater: (prev: TaskConflict[]) => TaskConflict[]) => {
+    conflictsRef.current = updater(conflictsRef.current);
+    setConflicts(conflictsRef.current);
+  };
+
+  // Tasks deleted on this device have no server version any more, so putting
+  // them back (e.g. by undo) isn't mistaken for an edit of a deleted task
+  const forgetServerVersions = (taskIds: string[]) => {
+    for (const taskId of taskIds) {
+      serverVersions.current.delete(taskId);
+      overwrittenVersions.current.delete(taskId);
+      ownWrites.current.delete(taskId);
     }
   };
 
-  // Calculate AI score for guest mode (simplified version)
-  const calculateAiScoreForGuest = (task: Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore">) => {
-    let score = 0;
-    
-    // Priority based score
-    if (task.priority === 'high') score += 30;
-    else if (task.priority === 'medium') score += 20;
-    else score += 10;
-    
-    // Due date based score
-    if (task.dueDate) {
-      const dueDate = new Date(task.dueDate);
-      const today = new Date();
-      const diffDays = Math.round((dueDate.getTime() - today.getTime()) / (1000 * 3600 * 24));
-      
-      if (diffDays <= 1) score += 30;
-      else if (diffDays <= 3) score += 20;
-      else if (diffDays <= 7) score += 10;
+  // Record the server's version of a task this device wrote, and rebase later
+  // queued edits that were made on top of it. Called while the operation that
+  // wrote it is still queued, which is left alone.
+  const acknowledgeSavedTask = async (savedTask: Task, operationId: string, baseVersion?: number) => {
+    const version = new Date(savedTask.updatedAt).getTime();
+    serverVersions.current.set(savedTask.id, version);
+    overwrittenVersions.current.delete(savedTask.id);
+    ownWrites.current.set(savedTask.id, {
+      version,
+      tagIds: savedTask.tags.map((tag) => tag.id),
+      blockedBy: savedTask.blockedBy || [],
+    });
+    setTasks((prevTasks) => prevTasks.map((t) =>
+      t.id === savedTask.id ? { ...t, createdAt: savedTask.createdAt, updatedAt: savedTask.updatedAt } : t
+    ));
+
+    for (const later of getPendingOperations()) {
+      if (later.id === operationId) continue;
+      if (later.entity === "task" && later.data.id === savedTask.id && later.baseVersion === baseVersion) {
+        await outbox.updateOperation(later.id, { baseVersion: version });
+      }
+      const batch = later.entity === "tasks" ? (later.data as syncService.TaskBatch) : null;
+      if (batch && batch.baseVersions[savedTask.id] === baseVersion) {
+        await outbox.updateOperation(later.id, {
+          data: { ...batch, baseVersions: { ...batch.baseVersions, [savedTask.id]: version } },
+        });
+      }
     }
-    
-    // Tags based score
-    if (task.tags.some(tag => tag.name.toLowerCase() === 'urgent')) {
-      score += 25;
+  };
+
+  // Replay the outbox in order. An operation is only removed once the server has
+  // acknowledged it; a failure schedules a retry with backoff and holds back later
+  // changes to the same record so they can't overtake it.
+  const syncPendingChanges = async (): Promise<SyncResult> => {
+    const result: SyncResult = { synced: 0, failed: 0, conflicts: 0 };
+    if (isGuest || !user?.id || syncingRef.current || !navigator.onLine) return result;
+
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      const held = new Set<string>();
+      const hold = (keys: string[]) => keys.forEach((key) => held.add(key));
+      for (const operation of getPendingOperations()) {
+        // A batch waits for every task in it
+        const recordKeys = syncService.getRecordKeys(operation);
+        if (recordKeys.some((key) => held.has(key))) {
+          hold(recordKeys);
+          continue;
+        }
+        // Waits for the user to merge it
+        if (conflictsRef.current.some((c) => c.operationId === operation.id)) {
+          hold(recordKeys);
+          continue;
+        }
+        if (operation.nextAttemptAt > Date.now()) {
+          hold(recordKeys);
+          continue;
+        }
+
+        try {
+          const saved = await syncService.replayOperation(operation, user.id);
+
+          // Take the server's timestamps without overwriting newer local edits.
+          // Done before the operation leaves the outbox: until then realtime
+          // echoes of the write are skipped as pending, and from then on they
+          // are recognised as this device's own.
+          if (operation.entity === "task" && saved) {
+            await acknowledgeSavedTask(saved as Task, operation.id, operation.baseVersion);
+          } else if (operation.entity === "tasks" && Array.isArray(saved)) {
+            const { baseVersions } = operation.data as syncService.TaskBatch;
+            for (const savedTask of saved) {
+              await acknowledgeSavedTask(savedTask, operation.id, baseVersions[savedTask.id]);
+            }
+          }
+
+          await outbox.acknowledge(operation.id);
+          result.synced++;
+        } catch (error: any) {
+          // A batch conflicts on one of its tasks at a time; once that one is
+          // merged the rest of the batch is retried. A task deleted on another
+          // device comes without a server version.
+          if (error instanceof taskService.TaskConflictError) {
+            const { taskId, serverTask: remote } = error;
+            // Compare against the newest version on this device, not just this edit
+            const local = getPendingOperations()
+              .filter((op) => op.type !== "delete")
+              .flatMap((op) => syncService.getOperationTasks(op))
+              .filter((t) => t.id === taskId)
+              .pop() || syncService.getOperationTasks(operation).find((t) => t.id === taskId);
+            updateConflicts((prev) => [...prev, { operationId: operation.id, local, remote }]);
+            hold(recordKeys);
+            result.conflicts++;
+            continue;
+          }
+
+          console.error("Error syncing change:", operation, error);
+          hold(recordKeys);
+          await outbox.markFailed(operation.id, error);
+          result.failed++;
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
     }
-    
-    return score;
+    return result;
   };
 
-  const updateTask = async (updatedTask: Task) => {
-    // Handle guest mode
-    if (isGuest) {
-      const updatedTasks = tasks.map((t) => 
-        t.id === updatedTask.id 
-          ? { ...updatedTask, updatedAt: new Date(), aiScore: calculateAiScoreForGuest(updatedTask) } 
-          : t
-      );
-      
-      setTasks(updatedTasks);
-      saveTasksToLocalStorage(updatedTasks);
-      
-      toast({
-        title: "Task updated",
-        description: `"${updatedTask.title}" has been updated.`,
-      });
+  const hasPendingChanges = (entity: SyncEntity, id: string) =>
+    getPendingOperations().some((op) =>
+      entity === "task"
+        ? syncService.getOperationTasks(op).some((task) => task.id === id)
+        : op.entity === entity && op.data.id === id
+    );
+
+  // Apply one realtime change to local state. Records with changes still in the
+  // outbox keep their local version, and echoes of this device's writes are skipped.
+  const applyRealtimeChange = (change: taskService.RealtimeChange) => {
+    if (change.table === "tags") {
+      const tagId = change.event === "DELETE" ? change.id : change.tag.id;
+      const replaceTag = (list: TaskTag[]) => change.event === "DELETE"
+        ? list.filter((tag) => tag.id !== tagId)
+        : list.map((tag) => (tag.id === tagId ? change.tag : tag));
+
+      const nextTags = change.event !== "DELETE" && !tagsRef.current.some((tag) => tag.id === tagId)
+        ? [...tagsRef.current, change.tag]
+        : replaceTag(tagsRef.current);
+      tagsRef.current = nextTags;
+      setTags(nextTags);
+      setTasks((prevTasks) => prevTasks.map((t) =>
+        t.tags.some((tag) => tag.id === tagId) ? { ...t, tags: replaceTag(t.tags) } : t
+      ));
       return;
     }
-    
-    // Handle authenticated mode
-    if (!user?.id) return;
-    
-    try {
-      const aiScore = taskService.calculateAiScore(updatedTask);
-      const task = await taskService.updateTask({
-        ...updatedTask,
-        aiScore
-      }, user.id);
-      
-      // Optimistically update the UI
-      setTasks((prevTasks) =>
-        prevTasks.map((t) => (t.id === updatedTask.id ? task : t))
+
+    if (change.table === "tasks") {
+      const taskId = change.event === "DELETE" ? change.id : change.task.id;
+      if (hasPendingChanges("task", taskId)) return;
+
+      if (change.event === "DELETE") {
+        ownWrites.current.delete(taskId);
+        serverVersions.current.delete(taskId);
+        overwrittenVersions.current.delete(taskId);
+        setTasks((prevTasks) => removeDependency(prevTasks.filter((t) => t.id !== taskId), taskId));
+        return;
+      }
+
+      const version = new Date(change.task.updatedAt).getTime();
+      if (ownWrites.current.get(taskId)?.version === version) return;
+
+      // Written elsewhere, so the link changes that follow are not our echoes
+      const own = ownWrites.current.get(taskId);
+      if (own) overwrittenVersions.current.set(taskId, own.version);
+      ownWrites.current.delete(taskId);
+      serverVersions.current.set(taskId, version);
+      setTasks((prevTasks) => prevTasks.some((t) => t.id === taskId)
+        ? prevTasks.map((t) => (t.id === taskId ? { ...change.task, tags: t.tags, blockedBy: t.blockedBy } : t))
+        : [...prevTasks, change.task]
       );
-      
-      toast({
-        title: "Task updated",
-        description: `"${updatedTask.title}" has been updated.`,
-      });
-    } catch (error: any) {
-      console.error("Error updating task:", error);
-      toast({
-        title: "Failed to update task",
-        description: error.message,
-        variant: "destructive",
-      });
+      return;
+    }
+
+    if (hasPendingChanges("task", change.taskId)) return;
+    const own = ownWrites.current.get(change.taskId);
+
+    if (change.table === "task_tags") {
+      // upsert_task rewrites every link of a task, so our own links come back as delete + insert
+      if (own?.tagIds.includes(change.tagId)) return;
+      const tag = tagsRef.current.find((t) => t.id === change.tagId);
+      setTasks((prevTasks) => prevTasks.map((t) => {
+        if (t.id !== change.taskId) return t;
+        const withoutTag = t.tags.filter((existing) => existing.id !== change.tagId);
+        return { ...t, tags: change.event === "INSERT" && tag ? [...withoutTag, tag] : withoutTag };
+      }));
+      return;
     }
+
+    if (own?.blockedBy.includes(change.blockedById)) return;
+    setTasks((prevTasks) => prevTasks.map((t) => {
+      if (t.id !== change.taskId) return t;
+      const withoutBlocker = (t.blockedBy || []).filter((id) => id !== change.blockedById);
+      return { ...t, blockedBy: change.event === "INSERT" ? [...withoutBlocker, change.blockedById] : withoutBlocker };
+    }));
   };
+  realtimeHandler.current = applyRealtimeChange;
 
-  const deleteTask = async (taskId: string) => {
-    // Handle guest mode
-    if (isGuest) {
-      const taskToDelete = tasks.find(task => task.id === taskId);
-      if (!taskToDelete) return;
-      
-      const updatedTasks = tasks.filter((task) => task.id !== taskId);
-      setTasks(updatedTasks);
-      saveTasksToLocalStorage(updatedTasks);
-      
+  // Record a change in the outbox and try to send it right away
+  const queueChange = async (type: QueuedOperationType, entity: SyncEntity, data: SyncRecord, baseVersion?: number) => {
+    await outbox.addToQueue({ type, entity, data, baseVersion });
+    syncPendingChanges();
+  };
+  queueChangeRef.current = queueChange;
+
+  // Replace every queued edit of the conflicting task, on its own or in a batch,
+  // with the merged version, based on the server's current version so it is accepted.
+  // A task deleted elsewhere is created again, or dropped when resolved is null.
+  const resolveConflict = async (conflict: TaskConflict, resolved: Task | null) => {
+    const taskId = conflict.local.id;
+
+    for (const op of getPendingOperations()) {
+      if (op.type === "delete") continue;
+      if (op.entity === "task" && op.data.id === taskId) {
+        await outbox.acknowledge(op.id);
+      }
+      // Batches keep their other tasks
+      const batch = op.entity === "tasks" ? (op.data as syncService.TaskBatch) : null;
+      if (batch?.tasks.some((t) => t.id === taskId)) {
+        const rest = batch.tasks.filter((t) => t.id !== taskId);
+        if (rest.length === 0) await outbox.acknowledge(op.id);
+        else await outbox.updateOperation(op.id, { data: { ...batch, tasks: rest } });
+      }
+    }
+    updateConflicts((prev) => prev.filter((c) => c.local.id !== taskId));
+
+    if (!resolved) {
+      forgetServerVersions([taskId]);
+      setTasks((prevTasks) => removeDependency(prevTasks.filter((t) => t.id !== taskId), taskId));
       toast({
-        title: "Task deleted",
-        description: `"${taskToDelete.title}" has been deleted.`,
-        variant: "destructive",
+        title: "Changes discarded",
+        description: `"${conflict.local.title}" stays deleted.`,
       });
       return;
     }
+
+    const merged: Task = { ...resolved, updatedAt: new Date() };
+    setTasks((prevTasks) => prevTasks.map((t) => (t.id === taskId ? merged : t)));
+    if (conflict.remote) {
+      const remoteVersion = new Date(conflict.remote.updatedAt).getTime();
+      serverVersions.current.set(taskId, remoteVersion);
+      await queueChange("update", "task", merged, remoteVersion);
+    } else {
+      forgetServerVersions([taskId]);
+      await queueChange("create", "task", merged);
+    }
+
+    toast({
+      title: "Conflict resolved",
+      description: `"${merged.title}" has been saved.`,
+    });
+  };
+
+  const addTask = async (taskData: Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore">) => {
+    // Progress of a task with a checklist is always derived from its subtasks
+    const task = applySubtaskProgress(taskData);
+
+    const { score: aiScore, rationale: aiRationale } = explainAiScore(task, { tasks });
+
+    if (!repository) return;
+
+    const now = new Date();
+    const newTask: Task = {
+      ...task,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+      aiScore,
+      aiRationale,
+    };
+
+    // Apply optimistically; signed-in changes reach Supabase through the outbox
+    setTasks((prevTasks) => [...prevTasks, newTask]);
+    persist(repository.createTask(newTask));
+    const changeId = history.record({ label: `Add "${task.title}"`, before: [], after: [newTask] });
     
-    // Handle authenticated mode
-    if (!user?.id) return;
+    toast({
+      title: "Task added",
+      description: `"${task.title}" has been added to your tasks.`,
+      action: undoAction(changeId),
+    });
+  };
+
+  // The next occurrence of a recurring task as it is saved, scored like any new task
+  const createOccurrence = (taskData: NewTask, now: Date): Task => {
+    const { score: aiScore, rationale: aiRationale } = explainAiScore(taskData, { tasks });
+    return { ...taskData, id: uuidv4(), createdAt: now, updatedAt: now, aiScore, aiRationale };
+  };
+
+  const updateTask = async (taskData: Task) => {
+    // Progress of a task with a checklist is always derived from its subtasks
+    const withProgress = applySubtaskProgress(taskData);
+    const previous = tasks.find((t) => t.id === withProgress.id);
+    // However the task got completed, a recurring one hands over to its next occurrence
+    const { task: updatedTask, nextTask } = previous
+      ? handOverRecurrence(previous, withProgress)
+      : { task: withProgress, nextTask: null };
+    const { score: aiScore, rationale: aiRationale } = explainAiScore(updatedTask, { tasks });
+
+    if (!repository) return;
+
+    const now = new Date();
+    const task: Task = { ...updatedTask, updatedAt: now, aiScore, aiRationale };
+    const created = nextTask ? [createOccurrence(nextTask, now)] : [];
+
+    setTasks((prevTasks) => [...prevTasks.map((t) => (t.id === task.id ? task : t)), ...created]);
+    persist(repository.updateTask(task));
+    created.forEach((t) => persist(repository.createTask(t)));
+    // The task and its next occurrence undo together
+    const changeId = previous
+      ? history.record({ label: `Edit "${task.title}"`, before: [previous], after: [task, ...created] })
+      : undefined;
     
+    toast({
+      title: "Task updated",
+      description: created.length > 0
+        ? `"${updatedTask.title}" has been completed and its next occurrence added.`
+        : `"${updatedTask.title}" has been updated.`,
+      action: undoAction(changeId),
+    });
+  };
+
+  const deleteTask = async (taskId: string) => {
+    if (!repository) return;
+
     const taskToDelete = tasks.find(task => task.id === taskId);
     if (!taskToDelete) return;
     
-    try {
-      await taskService.deleteTask(taskId, user.id);
-      
-      // Optimistically update the UI
-      setTasks((prevTasks) => prevTasks.filter((task) => task.id !== taskId));
-      
-      toast({
-        title: "Task deleted",
-        description: `"${taskToDelete.title}" has been deleted.`,
-        variant: "destructive",
-      });
-    } catch (error: any) {
-      console.error("Error deleting task:", error);
+    const withoutTask = (prevTasks: Task[]) =>
+      removeDependency(prevTasks.filter((task) => task.id !== taskId), taskId);
+
+    // Tasks that were waiting on it lose the dependency, which undo puts back
+    const dependents = getBlockedTasks(taskId, tasks);
+
+    setTasks(withoutTask);
+    forgetServerVersions([taskId]);
+    persist(repository.deleteTask(taskToDelete));
+    const changeId = history.record({
+      label: `Delete "${taskToDelete.title}"`,
+      before: [taskToDelete, ...dependents],
+      after: removeDependency(dependents, taskId),
+    });
+    
+    toast({
+      title: "Task deleted",
+      description: `"${taskToDelete.title}" has been deleted.`,
+      variant: "destructive",
+      action: undoAction(changeId),
+    });
+  };
+
+  // Apply one change to many tasks. Completed recurring tasks spawn their next
+  // occurrence as usual, in the same batch.
+  const bulkUpdateTasks = (taskIds: string[], change: BulkTaskChange, options?: { force?: boolean }) => {
+    if (!repository) return;
+
+    // As with a single task, starting blocked tasks needs an explicit confirmation
+    const blocked = change.status === 'in-progress' && !options?.force
+      ? tasks.filter(t => taskIds.includes(t.id) && t.status !== 'in-progress' && isTaskBlocked(t, tasks))
+      : [];
+    if (blocked.length > 0) {
       toast({
-        title: "Failed to delete task",
-        description: error.message,
-        variant: "destructive",
+        title: blocked.length === 1 ? "Task is blocked" : `${countTasks(blocked.length)} are blocked`,
+        description: `${blocked.map(t => `"${t.title}"`).join(", ")} ${blocked.length === 1 ? "is" : "are"} waiting on other tasks.`,
+        action: (
+          <ToastAction altText="Start anyway" onClick={() => bulkUpdateTasks(taskIds, change, { force: true })}>
+            Start anyway
+          </ToastAction>
+        ),
       });
+      return;
+    }
+
+    const now = new Date();
+    const previous: Task[] = [];
+    const updated = new Map<string, Task>();
+    const created: Task[] = [];
+
+    for (const task of tasks) {
+      if (!taskIds.includes(task.id)) continue;
+      const changed = applyBulkChange(task, change);
+      if (changed === task) continue;
+
+      const { task: updatedTask, nextTask } = handOverRecurrence(task, applySubtaskProgress(changed));
+      const { score: aiScore, rationale: aiRationale } = explainAiScore(updatedTask, { tasks });
+      previous.push(task);
+      updated.set(task.id, { ...updatedTask, updatedAt: now, aiScore, aiRationale });
+      if (nextTask) created.push(createOccurrence(nextTask, now));
+    }
+
+    if (updated.size === 0) return;
+
+    setTasks((prevTasks) => [...prevTasks.map((t) => updated.get(t.id) || t), ...created]);
+    persist(repository.saveTasks([...updated.values(), ...created]));
+    const changeId = history.record({
+      label: `Edit ${countTasks(updated.size)}`,
+      before: previous,
+      after: [...updated.values(), ...created],
+    });
+
+    toast({
+      title: "Tasks updated",
+      description: `${countTasks(updated.size)} updated.`,
+      action: undoAction(changeId),
+    });
+  };
+
+  const bulkDeleteTasks = (taskIds: string[]) => {
+    if (!repository) return;
+
+    const deleted = tasks.filter((task) => taskIds.includes(task.id));
+    if (deleted.length === 0) return;
+
+    // Tasks that lose a dependency, which undo puts back
+    const detached = tasks.filter((task) =>
+      !taskIds.includes(task.id) && task.blockedBy?.some((id) => taskIds.includes(id))
+    );
+
+    setTasks((prevTasks) => taskIds.reduce(
+      (remaining, taskId) => removeDependency(remaining, taskId),
+      prevTasks.filter((task) => !taskIds.includes(task.id))
+    ));
+    forgetServerVersions(taskIds);
+    persist(repository.deleteTasks(deleted));
+    const changeId = history.record({
+      label: `Delete ${countTasks(deleted.length)}`,
+      before: [...deleted, ...detached],
+      after: taskIds.reduce((remaining, taskId) => removeDependency(remaining, taskId), detached),
+    });
+
+    toast({
+      title: "Tasks deleted",
+      description: `${countTasks(deleted.length)} deleted.`,
+      variant: "destructive",
+      action: undoAction(changeId),
+    });
+  };
+
+  // Bring the tasks of a history entry from one side to the other: tasks only
+  // on the `from` side are deleted, the rest are written as they are in `to`.
+  // Tags, projects and dependencies that have gone away since are left off.
+  const applyTaskStates = (from: Task[], to: Task[]) => {
+    if (!repository) return;
+
+    const now = new Date();
+    const removedIds = from.map((t) => t.id).filter((id) => !to.some((t) => t.id === id));
+    const existingIds = new Set([
+      ...tasksRef.current.map((t) => t.id).filter((id) => !removedIds.includes(id)),
+      ...to.map((t) => t.id),
+    ]);
+    const written = to.map((task): Task => ({
+      ...restoreTaskReferences(task, { tags: tagsRef.current, projects: projectsRef.current, taskIds: existingIds }),
+      updatedAt: now,
+    }));
+    const writtenById = new Map(written.map((task) => [task.id, task]));
+
+    // A task still at the version another device wrote over this device's change
+    // is checked against this device's version, so putting it back conflicts
+    const baseVersions: Record<string, number> = {};
+    for (const task of written) {
+      const overwritten = overwrittenVersions.current.get(task.id);
+      const current = tasksRef.current.find((t) => t.id === task.id);
+      if (overwritten !== undefined && current &&
+          new Date(current.updatedAt).getTime() === serverVersions.current.get(task.id)) {
+        baseVersions[task.id] = overwritten;
+      }
     }
+
+    setTasks((prevTasks) => {
+      const kept = removedIds.reduce(
+        (remaining, taskId) => removeDependency(remaining, taskId),
+        prevTasks.filter((t) => !removedIds.includes(t.id))
+      ).map((t) => writtenById.get(t.id) || t);
+      return [...kept, ...written.filter((task) => !prevTasks.some((t) => t.id === task.id))];
+    });
+    persist(repository.saveTasks(written, baseVersions));
+    forgetServerVersions(removedIds);
+    persist(repository.deleteTasks(from.filter((t) => removedIds.includes(t.id))));
+  };
+
+  const undo = () => {
+    const entry = history.takeUndo();
+    if (!entry) return;
+    applyTaskStates(entry.after, entry.before);
+    toast({
+      title: "Undone",
+      description: entry.label,
+      action: (
+        <ToastAction altText="Redo" onClick={redo}>
+          Redo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const redo = () => {
+    const entry = history.takeRedo();
+    if (!entry) return;
+    applyTaskStates(entry.before, entry.after);
+    toast({
+      title: "Redone",
+      description: entry.label,
+    });
+  };
+
+  // Undo button for the toast of a change. Only the latest change can be undone
+  // from its toast; older ones are reached by undoing step by step.
+  const undoAction = (changeId?: string) => {
+    if (!changeId) return undefined;
+    return (
+      <ToastAction
+        altText="Undo"
+        onClick={() => {
+          if (history.latestId() === changeId) {
+            undo();
+          } else {
+            toast({
+              title: "Can't undo this change directly",
+              description: "Newer changes were made since. Undo them first (Ctrl+Z or ⌘Z).",
+            });
+          }
+        }}
+      >
+        Undo
+      </ToastAction>
+    );
   };
 
   const getTaskById = (taskId: string) => {
@@ -354,42 +788,206 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const addTag = async (tag: Omit<TaskTag, "id">) => {
-    // Handle guest mode
-    if (isGuest) {
-      const newTag: TaskTag = {
-        ...tag,
-        id: uuidv4(),
-      };
-      
-      const updatedTags = [...tags, newTag];
-      setTags(updatedTags);
-      saveTagsToLocalStorage(updatedTags);
-      
-      toast({
-        title: "Tag created",
-        description: `"${tag.name}" tag has been created.`,
-      });
-      return;
-    }
+    if (!repository) return;
+
+    const newTag: TaskTag = {
+      ...tag,
+      id: uuidv4(),
+    };
     
-    // Handle authenticated mode
-    if (!user?.id) return;
+    // Functional update so several tags created in a row are all kept
+    setTags((prevTags) => [...prevTags, newTag]);
+    persist(repository.createTag(newTag));
     
+    toast({
+      title: "Tag created",
+      description: `"${tag.name}" tag has been created.`,
+    });
+    return newTag;
+  };
+
+  const updateTag = async (updatedTag: TaskTag) => {
+    if (!repository || !tags.some((t) => t.id === updatedTag.id)) return;
+
+    setTags((prevTags) => prevTags.map((t) => (t.id === updatedTag.id ? updatedTag : t)));
+    setTasks((prevTasks) => prevTasks.map((t) => withUpdatedTag(t, updatedTag)));
+    persist(repository.updateTag(updatedTag));
+
+    toast({
+      title: "Tag updated",
+      description: `"${updatedTag.name}" has been updated.`,
+    });
+  };
+
+  const deleteTag = async (tagId: string) => {
+    if (!repository) return;
+
+    const tagToDelete = tags.find((t) => t.id === tagId);
+    if (!tagToDelete) return;
+
+    setTags((prevTags) => prevTags.filter((t) => t.id !== tagId));
+    setTasks((prevTasks) => prevTasks.map((t) => withoutTag(t, tagId)));
+    persist(repository.deleteTag(tagToDelete));
+
+    toast({
+      title: "Tag deleted",
+      description: `"${tagToDelete.name}" has been removed from all tasks.`,
+      variant: "destructive",
+    });
+  };
+
+  const mergeTags = async (sourceTagId: string, targetTagId: string) => {
+    if (!repository || sourceTagId === targetTagId) return;
+
+    const source = tags.find((t) => t.id === sourceTagId);
+    const target = tags.find((t) => t.id === targetTagId);
+    if (!source || !target) return;
+
+    // The tasks are retagged as ordinary edits, so they sync (and conflict) like any other
+    const now = new Date();
+    const retag = (task: Task): Task => ({ ...withoutTag(task, sourceTagId, target), updatedAt: now });
+    const affected = tasks.filter((t) => t.tags.some((tag) => tag.id === sourceTagId));
+    const affectedIds = new Set(affected.map((t) => t.id));
+
+    setTasks((prevTasks) => prevTasks.map((t) => (affectedIds.has(t.id) ? retag(t) : t)));
+    affected.forEach((task) => persist(repository.updateTask(retag(task))));
+    setTags((prevTags) => prevTags.filter((t) => t.id !== sourceTagId));
+    persist(repository.deleteTag(source));
+
+    toast({
+      title: "Tags merged",
+      description: `"${source.name}" was merged into "${target.name}" on ${affected.length} task${affected.length !== 1 ? "s" : ""}.`,
+    });
+  };
+
+  const addProject = async (project: Omit<TaskProject, "id">) => {
+    if (!repository) return;
+
+    const newProject: TaskProject = {
+      ...project,
+      id: uuidv4(),
+    };
+
+    setProjects((prevProjects) => [...prevProjects, newProject]);
+    persist(repository.createProject(newProject));
+
+    toast({
+      title: "Project created",
+      description: `"${project.name}" project has been created.`,
+    });
+    return newProject;
+  };
+
+  const updateProject = async (updatedProject: TaskProject) => {
+    if (!repository) return;
+
+    setProjects((prevProjects) => prevProjects.map((p) => (p.id === updatedProject.id ? updatedProject : p)));
+    persist(repository.updateProject(updatedProject));
+
+    toast({
+      title: "Project updated",
+      description: `"${updatedProject.name}" has been updated.`,
+    });
+  };
+
+  const deleteProject = async (projectId: string) => {
+    if (!repository) return;
+
+    const projectToDelete = projects.find((p) => p.id === projectId);
+    if (!projectToDelete) return;
+
+    // Tasks of a deleted project are kept and detached from it
+    const detachTasks = (prevTasks: Task[]) =>
+      prevTasks.map((t) => (t.projectId === projectId ? { ...t, projectId: null } : t));
+
+    setProjects((prevProjects) => prevProjects.filter((p) => p.id !== projectId));
+    setTasks(detachTasks);
+    persist(repository.deleteProject(projectToDelete));
+
+    toast({
+      title: "Project deleted",
+      description: `"${projectToDelete.name}" has been deleted.`,
+      variant: "destructive",
+    });
+  };
+
+  const saveView = async (view: Omit<SavedView, "id">) => {
+    if (!repository) return;
+
+    const newView: SavedView = { ...view, id: uuidv4() };
+    setSavedViews((prevViews) => [...prevViews, newView].sort((a, b) => a.name.localeCompare(b.name)));
+    persist(repository.createView(newView));
+
+    toast({
+      title: "View saved",
+      description: `"${newView.name}" has been added to your views.`,
+    });
+    return newView;
+  };
+
+  const deleteView = async (viewId: string) => {
+    if (!repository) return;
+
+    const viewToDelete = savedViews.find((v) => v.id === viewId);
+    if (!viewToDelete) return;
+
+    setSavedViews((prevViews) => prevViews.filter((v) => v.id !== viewId));
+    persist(repository.deleteView(viewToDelete));
+
+    toast({
+      title: "View deleted",
+      description: `"${viewToDelete.name}" has been deleted.`,
+      variant: "destructive",
+    });
+  };
+
+  // Score open tasks with the ai-prioritize edge function. When the function can't be
+  // reached the local scoring engine is used instead so the ranking is still fresh.
+  const prioritizeWithAi = async () => {
+    const openTasks = tasks.filter(t => t.status !== 'completed');
+    if (!repository || openTasks.length === 0 || aiPrioritizing) return;
+    
+    const applyScores = (
+      scores: Record<string, number>,
+      rationales: Record<string, string>,
+      { heuristic = false } = {}
+    ) => {
+      const withScore = (t: Task): Task => scores[t.id] !== undefined
+        ? { ...t, aiScore: scores[t.id], aiRationale: rationales[t.id] ?? t.aiRationale }
+        : t;
+      setTasks(prevTasks => prevTasks.map(withScore));
+      // The ai-prioritize function stores the scores it computes for signed-in
+      // users; heuristic ones are saved like any other edit, in one batch
+      persist(heuristic
+        ? repository.saveTasks(tasksRef.current.filter(t => scores[t.id] !== undefined).map(withScore))
+        : repository.saveScores(scores, rationales));
+    };
+    
+    setAiPrioritizing(true);
     try {
-      const newTag = await taskService.createTag(tag, user.id);
-      setTags((prevTags) => [...prevTags, newTag]);
+      const { aiScores, aiRationales } = await taskService.generateAiPriorities(openTasks);
+      applyScores(aiScores, aiRationales);
       
       toast({
-        title: "Tag created",
-        description: `"${tag.name}" tag has been created.`,
+        title: "Tasks prioritized",
+        description: `AI ranked ${Object.keys(aiScores).length} task${Object.keys(aiScores).length !== 1 ? 's' : ''}.`,
       });
     } catch (error: any) {
-      console.error("Error creating tag:", error);
+      console.error("Error getting AI priorities:", error);
+      const results = openTasks.map(t => [t.id, explainAiScore(t, { tasks })] as const);
+      applyScores(
+        Object.fromEntries(results.map(([id, result]) => [id, result.score])),
+        Object.fromEntries(results.map(([id, result]) => [id, result.rationale])),
+        { heuristic: true }
+      );
+      
       toast({
-        title: "Failed to create tag",
-        description: error.message,
+        title: "AI prioritization unavailable",
+        description: "Tasks were ranked with the built-in heuristic instead.",
         variant: "destructive",
       });
+    } finally {
+      setAiPrioritizing(false);
     }
   };
 
@@ -397,7 +995,51 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return [...tasks].sort((a, b) => (b.aiScore || 0) - (a.aiScore || 0));
   };
 
-  const toggleTaskStatus = async (taskId: string) => {
+  // Everything that can be done to a task without opening it; statuses and
+  // priorities it already has are left out
+  const getTaskCommands = (taskId: string): TaskCommand[] => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return [];
+
+    const statuses: { status: TaskStatus; label: string }[] = [
+      { status: 'pending', label: "Mark as pending" },
+      { status: 'in-progress', label: "Start task" },
+      { status: 'completed', label: "Complete task" },
+    ];
+    const priorities: { priority: TaskPriority; label: string }[] = [
+      { priority: 'low', label: "Set priority to low" },
+      { priority: 'medium', label: "Set priority to medium" },
+      { priority: 'high', label: "Set priority to high" },
+    ];
+
+    return [
+      ...statuses
+        .filter(({ status }) => status !== task.status)
+        .map(({ status, label }): TaskCommand => ({
+          id: `status:${status}`,
+          label,
+          group: "status",
+          run: () => setTaskStatus(taskId, status),
+        })),
+      ...priorities
+        .filter(({ priority }) => priority !== task.priority)
+        .map(({ priority, label }): TaskCommand => ({
+          id: `priority:${priority}`,
+          label,
+          group: "priority",
+          run: () => updateTask({ ...task, priority }),
+        })),
+      {
+        id: "delete",
+        label: "Delete task",
+        group: "task",
+        destructive: true,
+        run: () => deleteTask(taskId),
+      },
+    ];
+  };
+
+  const toggleTaskStatus = async (taskId: string, options?: { force?: boolean }) => {
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
     
@@ -405,25 +1047,46 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       task.status === 'pending' ? 'in-progress' :
       task.status === 'in-progress' ? 'completed' : 'pending';
     
-    const completedAt = newStatus === 'completed' ? new Date() : undefined;
-    const progress = newStatus === 'completed' ? 100 : 
-                     newStatus === 'in-progress' ? Math.max(task.progress || 0, 25) : 0;
+    await setTaskStatus(taskId, newStatus, options);
+  };
+
+  // Move a task to a specific status, keeping progress, completedAt, the checklist
+  // and recurrence consistent with it
+  const setTaskStatus = async (taskId: string, newStatus: TaskStatus, options?: { force?: boolean }) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || task.status === newStatus) return;
     
-    const updatedTask = {
-      ...task,
-      status: newStatus,
-      completedAt,
-      progress,
-      updatedAt: new Date(),
-    };
+    // Starting a task that is still waiting on others needs an explicit confirmation
+    const blockers = getBlockingTasks(task, tasks);
+    if (newStatus === 'in-progress' && blockers.length > 0 && !options?.force) {
+      toast({
+        title: "Task is blocked",
+        description: `"${task.title}" is waiting on ${blockers.map(b => `"${b.title}"`).join(", ")}.`,
+        action: (
+          <ToastAction altText="Start anyway" onClick={() => setTaskStatus(taskId, newStatus, { force: true })}>
+            Start anyway
+          </ToastAction>
+        ),
+      });
+      return;
+    }
     
-    await updateTask(updatedTask);
+    await updateTask(withStatus(task, newStatus));
   };
 
   const updateTaskProgress = async (taskId: string, progress: number) => {
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
     
+    // With a checklist, progress can only be driven to 0% or 100% by clearing or
+    // completing every item; anything in between is derived by updateTask
+    if (task.subtasks && task.subtasks.length > 0) {
+      const subtasks = progress === 100 ? setAllSubtasks(task.subtasks, true) :
+                       progress === 0 ? setAllSubtasks(task.subtasks, false) : task.subtasks;
+      await updateTask({ ...task, subtasks, updatedAt: new Date() });
+      return;
+    }
+    
     // Update status based on progress
     let status: TaskStatus = task.status;
     if (progress === 100) {
@@ -445,6 +1108,17 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     await updateTask(updatedTask);
   };
 
+  const toggleSubtask = async (taskId: string, subtaskId: string) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task?.subtasks) return;
+    
+    const subtasks = task.subtasks.map(s => 
+      s.id === subtaskId ? { ...s, completed: !s.completed } : s
+    );
+    
+    await updateTask({ ...task, subtasks, updatedAt: new Date() });
+  };
+
   return (
     <TaskContext.Provider
       value={{
@@ -452,14 +1126,43 @@ export const TaskProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         addTask,
         updateTask,
         deleteTask,
+        bulkUpdateTasks,
+        bulkDeleteTasks,
+        undo,
+        redo,
+        canUndo: history.canUndo,
+        canRedo: history.canRedo,
         getTaskById,
         tags,
         addTag,
+        updateTag,
+        deleteTag,
+        mergeTags,
+        projects,
+        addProject,
+        updateProject,
+        deleteProject,
+        searchTaskIds,
+        savedViews,
+        saveView,
+        deleteView,
         getAiPrioritizedTasks,
+        getTaskCommands,
         toggleTaskStatus,
+        setTaskStatus,
         updateTaskProgress,
+        toggleSubtask,
+        prioritizeWithAi,
+        aiPrioritizing,
         loading,
-        refetchTasks
+        refetchTasks,
+        reloadData: loadData,
+        pendingChanges: outbox.queue as SyncOperation[],
+        syncing,
+        isOnline: outbox.isOnline,
+        syncPendingChanges,
+        conflicts,
+        resolveConflict
       }}
     >
       {children}
@@ -0,0 +1,92 @@
+import { useEffect, useRef } from "react";
+
+export type ShortcutAction =
+  | "commandPalette"
+  | "newTask"
+  | "search"
+  | "viewTasks"
+  | "viewBoard"
+  | "viewCalendar"
+  | "viewAnalytics"
+  | "aiPriority"
+  | "undo"
+  | "redo"
+  | "help";
+
+interface Shortcut {
+  action: ShortcutAction;
+  key: string;
+  // Needs Ctrl, or Cmd on a Mac
+  mod?: boolean;
+  shift?: boolean;
+  // Also works while typing or with a dialog open
+  anywhere?: boolean;
+  description: string;
+}
+
+// Listed in the order the help overlay shows them
+export const KEYBOARD_SHORTCUTS: Shortcut[] = [
+  { action: "commandPalette", key: "k", mod: true, anywhere: true, description: "Open the command palette" },
+  { action: "newTask", key: "n", description: "Add a task" },
+  { action: "search", key: "/", description: "Search and filter tasks" },
+  { action: "viewTasks", key: "1", description: "Go to Tasks" },
+  { action: "viewBoard", key: "2", description: "Go to Board" },
+  { action: "viewCalendar", key: "3", description: "Go to Calendar" },
+  { action: "viewAnalytics", key: "4", description: "Go to Analytics" },
+  { action: "aiPriority", key: "a", description: "Toggle AI Priority" },
+  { action: "undo", key: "z", mod: true, shift: false, description: "Undo the last change" },
+  { action: "redo", key: "z", mod: true, shift: true, description: "Redo" },
+  { action: "redo", key: "y", mod: true, description: "Redo" },
+  { action: "help", key: "?", description: "Show keyboard shortcuts" },
+];
+
+export const isMac = () => typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+// Keys to show for a shortcut, e.g. ["⌘", "K"]
+export const formatShortcut = (shortcut: Pick<Shortcut, "key" | "mod" | "shift">): string[] => {
+  const key = shortcut.key.length === 1 ? shortcut.key.toUpperCase() : shortcut.key;
+  return [
+    ...(shortcut.mod ? [isMac() ? "⌘" : "Ctrl"] : []),
+    ...(shortcut.shift ? ["Shift"] : []),
+    key,
+  ];
+};
+
+// Single keys shouldn't fire while the user is typing
+const isTyping = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+};
+
+// Global keyboard shortcuts. Apart from the command palette they are ignored
+// while typing, so text fields keep their own Ctrl+Z, and while a dialog is open.
+export function useKeyboardShortcuts(handlers: Partial<Record<ShortcutAction, () => void>>) {
+  // Read the latest handlers without re-adding the listener on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.repeat) return;
+      const mod = event.metaKey || event.ctrlKey;
+
+      const shortcut = KEYBOARD_SHORTCUTS.find(
+        (s) =>
+          s.key === event.key.toLowerCase() &&
+          !!s.mod === mod &&
+          (s.shift === undefined || s.shift === event.shiftKey) &&
+          !event.altKey
+      );
+      const handler = shortcut && handlersRef.current[shortcut.action];
+      if (!handler) return;
+
+      if (!shortcut.anywhere && (isTyping(event.target) || document.querySelector('[role="dialog"]'))) return;
+
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+}
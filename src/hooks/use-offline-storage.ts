@@ -1,104 +1,169 @@
 
-import { useEffect, useState } from "react";
-import { useIsMobile } from "@/hooks/use-mobile";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { OUTBOX_STORE, StorageAdapter, offlineStorage } from "@/lib/offlineDb";
 
-// Type for offline task queue
+export type QueuedOperationType = 'create' | 'update' | 'delete';
+
+// A change waiting in the outbox until the server acknowledges it
 export interface QueuedOperation<T> {
   id: string;
-  type: 'create' | 'update' | 'delete';
+  queue: string;
+  // Replay order; strictly increasing within a queue
+  sequence: number;
+  type: QueuedOperationType;
+  entity: string;
   data: T;
   timestamp: number;
+  // Server version (updated_at, in ms) the change was made against, if known
+  baseVersion?: number;
+  attempts: number;
+  // Earliest time (ms) the next attempt may be made
+  nextAttemptAt: number;
+  lastError?: string;
 }
 
-export function useOfflineStorage<T extends { id: string }>(key: string) {
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// Exponential backoff: 2s, 4s, 8s, ... capped at five minutes
+export const getRetryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+
+// Persistent outbox, kept in IndexedDB unless another storage adapter is given.
+// Operations stay queued (across reloads) until acknowledge() is called for them;
+// failures only push the next attempt back.
+export function useOfflineStorage<T extends { id: string }>(
+  key: string,
+  storage: StorageAdapter = offlineStorage
+) {
   const [queue, setQueue] = useState<QueuedOperation<T>[]>([]);
-  const [offlineData, setOfflineData] = useState<T[]>([]);
+  const [ready, setReady] = useState(false);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const isMobile = useIsMobile();
+  // Mirrors the queue so replay loops always see the latest operations
+  const queueRef = useRef<QueuedOperation<T>[]>([]);
+
+  // Stable, since it only touches the ref and the state setter
+  const updateQueue = useCallback((updater: (prev: QueuedOperation<T>[]) => QueuedOperation<T>[]) => {
+    queueRef.current = updater(queueRef.current);
+    setQueue(queueRef.current);
+  }, []);
 
-  // Initialize from localStorage
+  // Initialize from IndexedDB
   useEffect(() => {
-    if (!isMobile) return;
-    
-    try {
-      const storedQueue = localStorage.getItem(`${key}_queue`);
-      const storedData = localStorage.getItem(key);
-      
-      if (storedQueue) {
-        setQueue(JSON.parse(storedQueue));
-      }
-      
-      if (storedData) {
-        setOfflineData(JSON.parse(storedData));
-      }
-    } catch (error) {
-      console.error('Error loading offline data:', error);
-    }
-  }, [key, isMobile]);
+    let cancelled = false;
+    setReady(false);
+
+    storage
+      .getAll<QueuedOperation<T>>(OUTBOX_STORE, { index: 'queue', value: key })
+      .then((stored) => {
+        const records = stored.sort((a, b) => a.sequence - b.sequence);
+        if (cancelled) return;
+        // Keep anything queued while the outbox was still loading
+        updateQueue((prev) => [...records, ...prev.filter((op) => !records.some((r) => r.id === op.id))]);
+      })
+      .catch((error) => {
+        console.error('Error loading offline queue:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setReady(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, storage, updateQueue]);
 
   // Listen for online/offline events
   useEffect(() => {
-    if (!isMobile) return;
-    
     const handleOnline = () => setIsOnline(true);
     const handleOffline = () => setIsOnline(false);
-    
+
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
-    
+
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, [isMobile]);
+  }, []);
 
-  // Save queue and data to localStorage whenever they change
-  useEffect(() => {
-    if (!isMobile) return;
-    
+  const persist = async (operation: QueuedOperation<T>) => {
     try {
-      localStorage.setItem(`${key}_queue`, JSON.stringify(queue));
-      localStorage.setItem(key, JSON.stringify(offlineData));
+      await storage.put(OUTBOX_STORE, operation);
     } catch (error) {
-      console.error('Error saving offline data:', error);
+      // The operation is still replayed from memory during this session
+      console.error('Error saving offline queue:', error);
     }
-  }, [queue, offlineData, key, isMobile]);
+  };
 
-  const addToQueue = (operation: Omit<QueuedOperation<T>, 'id' | 'timestamp'>) => {
-    if (!isMobile) return;
-    
-    const newOperation = {
+  const addToQueue = async (operation: Pick<QueuedOperation<T>, 'type' | 'entity' | 'data' | 'baseVersion'>) => {
+    const now = Date.now();
+    const last = queueRef.current[queueRef.current.length - 1];
+    const newOperation: QueuedOperation<T> = {
       ...operation,
       id: crypto.randomUUID(),
-      timestamp: Date.now(),
+      queue: key,
+      sequence: Math.max(now, (last?.sequence ?? 0) + 1),
+      timestamp: now,
+      attempts: 0,
+      nextAttemptAt: now,
     };
-    
-    setQueue(prev => [...prev, newOperation]);
-    
-    // Update offline data
-    if (operation.type === 'create') {
-      setOfflineData(prev => [...prev, operation.data]);
-    } else if (operation.type === 'update') {
-      setOfflineData(prev => 
-        prev.map(item => item.id === operation.data.id ? operation.data : item)
-      );
-    } else if (operation.type === 'delete') {
-      setOfflineData(prev => 
-        prev.filter(item => item.id !== operation.data.id)
-      );
+
+    updateQueue((prev) => [...prev, newOperation]);
+    await persist(newOperation);
+    return newOperation;
+  };
+
+  // Drop an operation the server has confirmed
+  const acknowledge = async (operationId: string) => {
+    updateQueue((prev) => prev.filter((op) => op.id !== operationId));
+    try {
+      await storage.delete(OUTBOX_STORE, operationId);
+    } catch (error) {
+      console.error('Error removing acknowledged operation:', error);
     }
   };
 
-  const clearQueue = () => {
-    setQueue([]);
+  // Change fields of a queued operation, e.g. to move it onto a newer base version
+  const updateOperation = async (operationId: string, changes: Partial<Pick<QueuedOperation<T>, 'data' | 'baseVersion'>>) => {
+    const operation = queueRef.current.find((op) => op.id === operationId);
+    if (!operation) return;
+
+    const updated = { ...operation, ...changes };
+    updateQueue((prev) => prev.map((op) => (op.id === operationId ? updated : op)));
+    await persist(updated);
+  };
+
+  // Record a failed attempt and schedule the next one
+  const markFailed = async (operationId: string, error: unknown) => {
+    const operation = queueRef.current.find((op) => op.id === operationId);
+    if (!operation) return;
+
+    const attempts = operation.attempts + 1;
+    const failed: QueuedOperation<T> = {
+      ...operation,
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      // Supabase errors are plain objects with a message
+      lastError: error instanceof Error
+        ? error.message
+        : typeof error === 'object' && error && 'message' in error
+          ? String(error.message)
+          : String(error),
+    };
+
+    updateQueue((prev) => prev.map((op) => (op.id === operationId ? failed : op)));
+    await persist(failed);
   };
 
   return {
     queue,
+    getQueue: () => queueRef.current,
+    ready,
     addToQueue,
-    clearQueue,
-    offlineData,
-    setOfflineData,
+    acknowledge,
+    updateOperation,
+    markFailed,
     isOnline,
   };
 }
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { useTaskContext } from "@/context/TaskContext";
+
+const NO_MATCHES = new Set<string>();
+
+// How long typing has to pause before the server is asked
+const SEARCH_DELAY_MS = 250;
+
+// Ids of tasks the server's full-text search finds for the given text. Empty
+// while offline, in guest mode, or when there is no text.
+export function useServerSearch(text: string) {
+  const { searchTaskIds, isOnline } = useTaskContext();
+  const [matchIds, setMatchIds] = useState<Set<string>>(NO_MATCHES);
+  const query = text.trim();
+
+  useEffect(() => {
+    if (!query || !isOnline) {
+      setMatchIds(NO_MATCHES);
+      return;
+    }
+
+    // Only the latest query's answer is used, whatever order answers arrive in
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchTaskIds(query)
+        .then((ids) => {
+          if (!cancelled) setMatchIds(ids.length > 0 ? new Set(ids) : NO_MATCHES);
+        })
+        .catch((error) => {
+          // The local search index still works without it
+          console.error("Error searching tasks on the server:", error);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, isOnline, searchTaskIds]);
+
+  return matchIds;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { Task, TaskProject, TaskTag } from "@/types/task";
+import { restoreTaskReferences } from "./use-undo-history";
+
+const work: TaskTag = { id: "tag-work", name: "Work", color: "#5C95FF" };
+const home: TaskTag = { id: "tag-home", name: "Home", color: "#6ECB63" };
+const launch: TaskProject = { id: "project-1", name: "Launch" };
+
+// A task as a history entry recorded it
+const snapshot: Task = {
+  id: "task-1",
+  title: "Write report",
+  status: "pending",
+  priority: "medium",
+  tags: [work, home],
+  blockedBy: ["task-2", "task-3"],
+  projectId: launch.id,
+  createdAt: new Date("2025-06-01T09:00:00Z"),
+  updatedAt: new Date("2025-06-01T09:00:00Z"),
+};
+
+describe("restoreTaskReferences", () => {
+  it("keeps references that still exist", () => {
+    const renamed = { ...work, name: "Office" };
+    const restored = restoreTaskReferences(snapshot, {
+      tags: [renamed, home],
+      projects: [launch],
+      taskIds: new Set(["task-1", "task-2", "task-3"]),
+    });
+
+    expect(restored).toEqual({ ...snapshot, tags: [renamed, home] });
+  });
+
+  it("detaches a task from a project deleted after the change, when undoing it", () => {
+    const restored = restoreTaskReferences(snapshot, {
+      tags: [work, home],
+      projects: [],
+      taskIds: new Set(["task-1", "task-2", "task-3"]),
+    });
+
+    expect(restored.projectId).toBeNull();
+  });
+
+  it("leaves off tags and blockers that have been deleted", () => {
+    const restored = restoreTaskReferences(snapshot, {
+      tags: [home],
+      projects: [launch],
+      taskIds: new Set(["task-1", "task-3"]),
+    });
+
+    expect(restored).toMatchObject({ tags: [home], blockedBy: ["task-3"], projectId: launch.id });
+  });
+});
@@ -0,0 +1,86 @@
+import { useRef, useState } from "react";
+import { Task, TaskProject, TaskTag } from "@/types/task";
+import { v4 as uuidv4 } from "uuid";
+
+// One undoable change. `before` and `after` hold the tasks it touched as they
+// were and as they became; a task on only one side was created or deleted.
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  before: Task[];
+  after: Task[];
+}
+
+// A task of an entry as it can be written back now. Tags and the project are
+// taken as they are now, and the ones deleted since are left off like blockers
+// that no longer exist.
+export const restoreTaskReferences = (
+  task: Task,
+  current: { tags: TaskTag[]; projects: TaskProject[]; taskIds: Set<string> }
+): Task => ({
+  ...task,
+  tags: task.tags
+    .map((tag) => current.tags.find((t) => t.id === tag.id))
+    .filter((tag): tag is TaskTag => !!tag),
+  projectId: task.projectId && current.projects.some((p) => p.id === task.projectId) ? task.projectId : null,
+  blockedBy: (task.blockedBy || []).filter((id) => current.taskIds.has(id)),
+});
+
+// How many changes can be undone
+const HISTORY_LIMIT = 50;
+
+// Undo and redo stacks of task changes
+export function useUndoHistory() {
+  const past = useRef<HistoryEntry[]>([]);
+  const future = useRef<HistoryEntry[]>([]);
+  // Mirrors the stack sizes so undo and redo buttons re-render
+  const [sizes, setSizes] = useState({ past: 0, future: 0 });
+
+  const sync = () => setSizes({ past: past.current.length, future: future.current.length });
+
+  // Add a change, returning the id of its entry
+  const record = (change: Omit<HistoryEntry, "id">): string => {
+    const entry = { ...change, id: uuidv4() };
+    past.current = [...past.current, entry].slice(-HISTORY_LIMIT);
+    // A new change makes the undone ones unreachable
+    future.current = [];
+    sync();
+    return entry.id;
+  };
+
+  const takeUndo = (): HistoryEntry | undefined => {
+    const entry = past.current[past.current.length - 1];
+    if (!entry) return undefined;
+    past.current = past.current.slice(0, -1);
+    future.current = [...future.current, entry];
+    sync();
+    return entry;
+  };
+
+  const takeRedo = (): HistoryEntry | undefined => {
+    const entry = future.current[future.current.length - 1];
+    if (!entry) return undefined;
+    future.current = future.current.slice(0, -1);
+    past.current = [...past.current, entry];
+    sync();
+    return entry;
+  };
+
+  const latestId = () => past.current[past.current.length - 1]?.id;
+
+  const clear = () => {
+    past.current = [];
+    future.current = [];
+    sync();
+  };
+
+  return {
+    record,
+    takeUndo,
+    takeRedo,
+    latestId,
+    clear,
+    canUndo: sizes.past > 0,
+    canRedo: sizes.future > 0,
+  };
+}
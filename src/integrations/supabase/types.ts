@@ -71,6 +71,38 @@ export type Database = {
           },
         ]
       }
+      saved_views: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          query: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          query?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          query?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_views_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tags: {
         Row: {
           color: string
@@ -98,6 +130,39 @@ export type Database = {
         }
         Relationships: []
       }
+      task_dependencies: {
+        Row: {
+          blocked_by_id: string
+          created_at: string
+          task_id: string
+        }
+        Insert: {
+          blocked_by_id: string
+          created_at?: string
+          task_id: string
+        }
+        Update: {
+          blocked_by_id?: string
+          created_at?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_blocked_by_id_fkey"
+            columns: ["blocked_by_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       task_tags: {
         Row: {
           tag_id: string
@@ -130,6 +195,7 @@ export type Database = {
       }
       tasks: {
         Row: {
+          ai_rationale: string | null
           ai_score: number | null
           completed_at: string | null
           created_at: string
@@ -138,12 +204,16 @@ export type Database = {
           id: string
           priority: string
           progress: number | null
+          project_id: string | null
+          recurrence: string | null
           status: string
+          subtasks: Json
           title: string
           updated_at: string | null
           user_id: string
         }
         Insert: {
+          ai_rationale?: string | null
           ai_score?: number | null
           completed_at?: string | null
           created_at?: string
@@ -152,12 +222,16 @@ export type Database = {
           id?: string
           priority: string
           progress?: number | null
+          project_id?: string | null
+          recurrence?: string | null
           status?: string
+          subtasks?: Json
           title: string
           updated_at?: string | null
           user_id: string
         }
         Update: {
+          ai_rationale?: string | null
           ai_score?: number | null
           completed_at?: string | null
           created_at?: string
@@ -166,19 +240,88 @@ export type Database = {
           id?: string
           priority?: string
           progress?: number | null
+          project_id?: string | null
+          recurrence?: string | null
           status?: string
+          subtasks?: Json
           title?: string
           updated_at?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      search_tasks: {
+        Args: {
+          p_query: string
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          rank: number
+        }[]
+      }
+      upsert_task: {
+        Args: {
+          p_task: Json
+          p_tag_ids?: string[]
+          p_blocked_by_ids?: string[]
+          p_expected_updated_at?: string
+        }
+        Returns: {
+          ai_rationale: string | null
+          ai_score: number | null
+          completed_at: string | null
+          created_at: string
+          description: string | null
+          due_date: string | null
+          id: string
+          priority: string
+          progress: number | null
+          project_id: string | null
+          recurrence: string | null
+          status: string
+          subtasks: Json
+          title: string
+          updated_at: string | null
+          user_id: string
+        }
+      }
+      upsert_tasks: {
+        Args: {
+          p_tasks: Json
+        }
+        Returns: {
+          ai_rationale: string | null
+          ai_score: number | null
+          completed_at: string | null
+          created_at: string
+          description: string | null
+          due_date: string | null
+          id: string
+          priority: string
+          progress: number | null
+          project_id: string | null
+          recurrence: string | null
+          status: string
+          subtasks: Json
+          title: string
+          updated_at: string | null
+          user_id: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
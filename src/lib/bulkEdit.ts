@@ -0,0 +1,43 @@
+import { Task, TaskPriority, TaskStatus, TaskTag } from "@/types/task";
+import { withStatus } from "@/lib/taskStatus";
+
+// A change applied to every selected task at once. Fields left out are kept.
+export interface BulkTaskChange {
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  // null clears the due date
+  dueDate?: Date | null;
+  addTags?: TaskTag[];
+  removeTagIds?: string[];
+}
+
+// The task with a bulk change applied, or the same task when nothing changes
+export const applyBulkChange = (task: Task, change: BulkTaskChange): Task => {
+  let result = task;
+
+  if (change.status && change.status !== task.status) {
+    result = withStatus(result, change.status);
+  }
+  if (change.priority && change.priority !== task.priority) {
+    result = { ...result, priority: change.priority };
+  }
+  if (change.dueDate !== undefined) {
+    const current = task.dueDate ? new Date(task.dueDate).getTime() : null;
+    const next = change.dueDate ? change.dueDate.getTime() : null;
+    if (current !== next) result = { ...result, dueDate: change.dueDate };
+  }
+
+  const addTags = (change.addTags || []).filter((tag) => !task.tags.some((t) => t.id === tag.id));
+  const removeTagIds = (change.removeTagIds || []).filter((id) => task.tags.some((t) => t.id === id));
+  if (addTags.length > 0 || removeTagIds.length > 0) {
+    result = {
+      ...result,
+      tags: [...result.tags.filter((tag) => !removeTagIds.includes(tag.id)), ...addTags],
+    };
+  }
+
+  return result;
+};
+
+// "3 tasks", "1 task"
+export const countTasks = (count: number) => `${count} task${count !== 1 ? "s" : ""}`;
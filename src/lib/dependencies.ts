@@ -0,0 +1,58 @@
+import { Task } from "@/types/task";
+
+// Unfinished tasks that the given task is waiting on
+export const getBlockingTasks = (task: Pick<Task, "blockedBy">, tasks: Task[]): Task[] => {
+  if (!task.blockedBy || task.blockedBy.length === 0) return [];
+
+  return tasks.filter((t) => task.blockedBy.includes(t.id) && t.status !== "completed");
+};
+
+// Tasks that list the given task as a blocker
+export const getBlockedTasks = (taskId: string, tasks: Task[]): Task[] => {
+  return tasks.filter((t) => t.blockedBy?.includes(taskId));
+};
+
+export const isTaskBlocked = (task: Pick<Task, "blockedBy">, tasks: Task[]): boolean => {
+  return getBlockingTasks(task, tasks).length > 0;
+};
+
+// Look for a cycle that saving `blockedBy` on `taskId` would create.
+// Returns the task ids along the cycle, starting and ending with taskId, or null.
+export const findDependencyCycle = (
+  taskId: string,
+  blockedBy: string[],
+  tasks: Task[]
+): string[] | null => {
+  const edges = new Map<string, string[]>(tasks.map((t) => [t.id, t.blockedBy || []]));
+  edges.set(taskId, blockedBy);
+
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === taskId) return [...path, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+
+    for (const next of edges.get(id) || []) {
+      const cycle = visit(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const blockerId of blockedBy) {
+    const cycle = visit(blockerId, [taskId]);
+    if (cycle) return cycle;
+  }
+
+  return null;
+};
+
+// Remove references to a deleted task from everyone's blockers
+export const removeDependency = (tasks: Task[], deletedTaskId: string): Task[] => {
+  return tasks.map((t) =>
+    t.blockedBy?.includes(deletedTaskId)
+      ? { ...t, blockedBy: t.blockedBy.filter((id) => id !== deletedTaskId) }
+      : t
+  );
+};
@@ -0,0 +1,44 @@
+import { SavedView, Task, TaskProject, TaskTag } from "@/types/task";
+import {
+  GUEST_PROJECTS_STORE,
+  GUEST_TAGS_STORE,
+  GUEST_TASKS_STORE,
+  GUEST_VIEWS_STORE,
+  StorageAdapter,
+  offlineStorage,
+} from "@/lib/offlineDb";
+
+export interface GuestData {
+  tasks: Task[];
+  tags: TaskTag[];
+  projects: TaskProject[];
+  views: SavedView[];
+}
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+// Everything guest mode left on this device. Records come back keyed by id, so
+// they are put into a stable order here.
+export const readGuestData = async (storage: StorageAdapter = offlineStorage): Promise<GuestData> => {
+  const [tasks, tags, projects, views] = await Promise.all([
+    storage.getAll<Task>(GUEST_TASKS_STORE),
+    storage.getAll<TaskTag>(GUEST_TAGS_STORE),
+    storage.getAll<TaskProject>(GUEST_PROJECTS_STORE),
+    storage.getAll<SavedView>(GUEST_VIEWS_STORE),
+  ]);
+  return {
+    tasks: tasks.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()),
+    tags: tags.sort(byName),
+    projects: projects.sort(byName),
+    views: views.sort(byName),
+  };
+};
+
+export const clearGuestData = async (storage: StorageAdapter = offlineStorage) => {
+  await Promise.all([
+    storage.clear(GUEST_TASKS_STORE),
+    storage.clear(GUEST_TAGS_STORE),
+    storage.clear(GUEST_PROJECTS_STORE),
+    storage.clear(GUEST_VIEWS_STORE),
+  ]);
+};
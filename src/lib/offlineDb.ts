@@ -0,0 +1,238 @@
+// Versioned IndexedDB storage for everything kept on the device: the outbox of
+// changes waiting to be synced, the last copy of the account's data, and all
+// guest mode data. Callers go through the StorageAdapter interface.
+
+import { Task } from "@/types/task";
+
+const DB_NAME = "kairo_offline";
+
+export const OUTBOX_STORE = "outbox";
+export const CACHE_STORE = "cache";
+export const GUEST_TASKS_STORE = "guest_tasks";
+export const GUEST_TAGS_STORE = "guest_tags";
+export const GUEST_PROJECTS_STORE = "guest_projects";
+export const GUEST_VIEWS_STORE = "guest_views";
+
+export type StoreName =
+  | typeof OUTBOX_STORE
+  | typeof CACHE_STORE
+  | typeof GUEST_TASKS_STORE
+  | typeof GUEST_TAGS_STORE
+  | typeof GUEST_PROJECTS_STORE
+  | typeof GUEST_VIEWS_STORE;
+
+export interface StorageAdapter {
+  get: <T>(store: StoreName, key: IDBValidKey) => Promise<T | undefined>;
+  // All records, or those whose index matches the given value
+  getAll: <T>(store: StoreName, query?: { index: string; value: IDBValidKey }) => Promise<T[]>;
+  // The key is only needed for stores without a key path (the cache)
+  put: <T>(store: StoreName, value: T, key?: IDBValidKey) => Promise<void>;
+  // Puts and deletes applied in one transaction
+  bulkWrite: <T>(store: StoreName, changes: { put?: T[]; delete?: IDBValidKey[] }) => Promise<void>;
+  delete: (store: StoreName, key: IDBValidKey) => Promise<void>;
+  clear: (store: StoreName) => Promise<void>;
+}
+
+// localStorage keys guest mode used before version 2
+const LEGACY_GUEST_KEYS: Record<string, StoreName> = {
+  kairo_guest_tasks: GUEST_TASKS_STORE,
+  kairo_guest_tags: GUEST_TAGS_STORE,
+  kairo_guest_projects: GUEST_PROJECTS_STORE,
+};
+
+const toDate = (value: unknown): Date | null | undefined => {
+  if (value === null) return null;
+  if (value === undefined) return undefined;
+  return value instanceof Date ? value : new Date(value as string);
+};
+
+// Turn serialized dates of a task back into Date objects
+export const reviveTaskDates = <T extends Partial<Task>>(task: T): T => ({
+  ...task,
+  dueDate: toDate(task.dueDate),
+  createdAt: toDate(task.createdAt),
+  updatedAt: toDate(task.updatedAt),
+  completedAt: toDate(task.completedAt),
+  recurrence: task.recurrence
+    ? { ...task.recurrence, until: toDate(task.recurrence.until) }
+    : task.recurrence,
+}) as T;
+
+// Applied to every record read, so data written by older versions (or as JSON)
+// always comes back with real dates
+const REVIVERS: Partial<Record<StoreName, (value: unknown) => unknown>> = {
+  [GUEST_TASKS_STORE]: (task) => reviveTaskDates(task as Task),
+  [OUTBOX_STORE]: (value) => {
+    const op = value as { entity: string; data: Task | { tasks: Task[] } };
+    if (op.entity === "task") return { ...op, data: reviveTaskDates(op.data as Task) };
+    if (op.entity !== "tasks") return op;
+    const batch = op.data as { tasks: Task[] };
+    return { ...op, data: { ...batch, tasks: batch.tasks.map(reviveTaskDates) } };
+  },
+  [CACHE_STORE]: (value) => {
+    const snapshot = value as { tasks?: Task[] };
+    return Array.isArray(snapshot?.tasks) ? { ...snapshot, tasks: snapshot.tasks.map(reviveTaskDates) } : value;
+  },
+};
+
+const revive = <T>(store: StoreName, value: T): T => {
+  const reviver = REVIVERS[store];
+  return reviver && value !== undefined ? (reviver(value) as T) : value;
+};
+
+// Each entry upgrades the database from the previous version. Entries that have
+// shipped must never change; add a new one instead.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  // 1: outbox of unsynced changes and the cached copy of account data
+  (db) => {
+    const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+    outbox.createIndex("queue", "queue");
+    db.createObjectStore(CACHE_STORE);
+  },
+  // 2: guest data, moved over from localStorage one record per row
+  (db, transaction) => {
+    db.createObjectStore(GUEST_TASKS_STORE, { keyPath: "id" });
+    db.createObjectStore(GUEST_TAGS_STORE, { keyPath: "id" });
+    db.createObjectStore(GUEST_PROJECTS_STORE, { keyPath: "id" });
+
+    for (const [key, storeName] of Object.entries(LEGACY_GUEST_KEYS)) {
+      try {
+        const records: unknown[] = JSON.parse(localStorage.getItem(key) || "[]");
+        const store = transaction.objectStore(storeName);
+        records.forEach((record) =>
+          store.put(storeName === GUEST_TASKS_STORE ? reviveTaskDates(record as Task) : record)
+        );
+      } catch (error) {
+        console.error(`Error migrating ${key}:`, error);
+      }
+    }
+
+    // Only forget the old copy once the new one is safely committed
+    transaction.addEventListener("complete", () => {
+      Object.keys(LEGACY_GUEST_KEYS).forEach((key) => localStorage.removeItem(key));
+    });
+  },
+  // 3: saved views of guest mode
+  (db) => {
+    db.createObjectStore(GUEST_VIEWS_STORE, { keyPath: "id" });
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openOfflineDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, request.transaction);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openOfflineDb();
+  return promisifyRequest(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const createIndexedDbStorage = (): StorageAdapter => ({
+  get: async <T>(store: StoreName, key: IDBValidKey) =>
+    revive(store, await withStore<T | undefined>(store, "readonly", (s) => s.get(key))),
+
+  getAll: async <T>(store: StoreName, query?: { index: string; value: IDBValidKey }) => {
+    const records = await withStore<T[]>(store, "readonly", (s) =>
+      query ? s.index(query.index).getAll(query.value) : s.getAll()
+    );
+    return records.map((record) => revive(store, record));
+  },
+
+  put: async <T>(store: StoreName, value: T, key?: IDBValidKey) => {
+    await withStore(store, "readwrite", (s) => s.put(value, key));
+  },
+
+  bulkWrite: async <T>(store: StoreName, changes: { put?: T[]; delete?: IDBValidKey[] }) => {
+    const db = await openOfflineDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(store, "readwrite");
+      const objectStore = transaction.objectStore(store);
+      changes.put?.forEach((value) => objectStore.put(value));
+      changes.delete?.forEach((key) => objectStore.delete(key));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  },
+
+  delete: async (store: StoreName, key: IDBValidKey) => {
+    await withStore(store, "readwrite", (s) => s.delete(key));
+  },
+
+  clear: async (store: StoreName) => {
+    await withStore(store, "readwrite", (s) => s.clear());
+  },
+});
+
+// Keeps every store in memory, e.g. for tests. Records are copied on the way in
+// and out, as IndexedDB does, so callers never share objects with the store.
+export const createMemoryStorage = (): StorageAdapter => {
+  const stores = new Map<StoreName, Map<IDBValidKey, unknown>>();
+
+  const getStore = (store: StoreName) => {
+    if (!stores.has(store)) stores.set(store, new Map());
+    return stores.get(store);
+  };
+
+  const getKey = (value: unknown, key?: IDBValidKey) => key ?? (value as { id: IDBValidKey }).id;
+
+  return {
+    get: async <T>(store: StoreName, key: IDBValidKey) => structuredClone(getStore(store).get(key)) as T | undefined,
+
+    getAll: async <T>(store: StoreName, query?: { index: string; value: IDBValidKey }) =>
+      [...getStore(store).values()]
+        .filter((record) => !query || (record as Record<string, unknown>)[query.index] === query.value)
+        .map((record) => structuredClone(record) as T),
+
+    put: async <T>(store: StoreName, value: T, key?: IDBValidKey) => {
+      getStore(store).set(getKey(value, key), structuredClone(value));
+    },
+
+    bulkWrite: async <T>(store: StoreName, changes: { put?: T[]; delete?: IDBValidKey[] }) => {
+      const records = getStore(store);
+      changes.put?.forEach((value) => records.set(getKey(value), structuredClone(value)));
+      changes.delete?.forEach((key) => records.delete(key));
+    },
+
+    delete: async (store: StoreName, key: IDBValidKey) => {
+      getStore(store).delete(key);
+    },
+
+    clear: async (store: StoreName) => {
+      getStore(store).clear();
+    },
+  };
+};
+
+export const offlineStorage = createIndexedDbStorage();
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { matchQuickAddTags, parseQuickAdd } from "./quickAdd";
+
+// Wednesday 4 June 2025, 10:00 local time
+const now = new Date(2025, 5, 4, 10, 0);
+
+const at = (month: number, day: number, hours = 0, minutes = 0, year = 2025) =>
+  new Date(year, month - 1, day, hours, minutes);
+
+describe("parseQuickAdd", () => {
+  it("extracts tags, priority, date and time and keeps the rest as the title", () => {
+    expect(parseQuickAdd("Pay invoice tomorrow 5pm #work !high", now)).toEqual({
+      title: "Pay invoice",
+      dueDate: at(6, 5, 17),
+      priority: "high",
+      tagNames: ["work"],
+    });
+  });
+
+  it("collects every tag once, ignoring case", () => {
+    expect(parseQuickAdd("Plan #Home #trip #home", now).tagNames).toEqual(["Home", "trip"]);
+  });
+
+  it.each([
+    ["!low", "low"],
+    ["!med", "medium"],
+    ["!medium", "medium"],
+    ["!urgent", "urgent"],
+  ])("reads %s as %s priority", (flag, priority) => {
+    expect(parseQuickAdd(`Call Sam ${flag}`, now).priority).toBe(priority);
+  });
+
+  it.each([
+    ["today", at(6, 4)],
+    ["tonight", at(6, 4, 20)],
+    ["tomorrow", at(6, 5)],
+    ["tmrw", at(6, 5)],
+    ["in 3 days", at(6, 7)],
+    ["in 2 weeks", at(6, 18)],
+    ["in 1 month", at(7, 4)],
+    ["next week", at(6, 9)],
+    ["next month", at(7, 1)],
+    ["jun 10", at(6, 10)],
+    ["10th june", at(6, 10)],
+    ["may 1", at(5, 1, 0, 0, 2026)],
+    ["2025-07-01", at(7, 1)],
+  ])("understands %s", (phrase, dueDate) => {
+    expect(parseQuickAdd(`Water plants ${phrase}`, now)).toMatchObject({ title: "Water plants", dueDate });
+  });
+
+  describe("weekdays", () => {
+    it.each([
+      ["friday", at(6, 6)],
+      ["due friday", at(6, 6)],
+      ["next friday", at(6, 6)],
+      ["sunday", at(6, 8)],
+      // Today's weekday means next week
+      ["wednesday", at(6, 11)],
+      ["fri.", at(6, 6)],
+      ["by sat.", at(6, 7)],
+      ["on fri", at(6, 6)],
+      ["on sun", at(6, 8)],
+    ])("understands %s", (phrase, dueDate) => {
+      expect(parseQuickAdd(`Call mum ${phrase}`, now)).toMatchObject({ title: "Call mum", dueDate });
+    });
+
+    it.each(["Buy sun cream", "Wash sat nav", "Book wed reception", "Visit Mon Repos"])(
+      "leaves bare abbreviations in %s alone",
+      (input) => {
+        expect(parseQuickAdd(input, now)).toEqual({ title: input, dueDate: undefined, priority: undefined, tagNames: [] });
+      }
+    );
+  });
+
+  describe("month/day dates", () => {
+    it.each([
+      ["due 6/10", at(6, 10)],
+      ["on 6/10", at(6, 10)],
+      ["by 7/1", at(7, 1)],
+      // Already past this year
+      ["due 1/2", at(1, 2, 0, 0, 2026)],
+    ])("understands %s", (phrase, dueDate) => {
+      expect(parseQuickAdd(`Send report ${phrase}`, now)).toMatchObject({ title: "Send report", dueDate });
+    });
+
+    it("needs a lead word", () => {
+      expect(parseQuickAdd("Split bill 1/2 with Sam", now)).toEqual({
+        title: "Split bill 1/2 with Sam",
+        dueDate: undefined,
+        priority: undefined,
+        tagNames: [],
+      });
+    });
+
+    it("ignores dates that don't exist", () => {
+      expect(parseQuickAdd("Send report due 2/30", now).dueDate).toBeUndefined();
+    });
+  });
+
+  describe("times", () => {
+    it.each([
+      ["friday 5:30pm", at(6, 6, 17, 30)],
+      ["friday at 9am", at(6, 6, 9)],
+      ["tomorrow 17:00", at(6, 5, 17)],
+      ["tomorrow noon", at(6, 5, 12)],
+      ["tonight 11pm", at(6, 4, 23)],
+    ])("combines %s", (phrase, dueDate) => {
+      expect(parseQuickAdd(`Gym ${phrase}`, now)).toMatchObject({ title: "Gym", dueDate });
+    });
+
+    it("puts a time on its own at the next time the clock reaches it", () => {
+      expect(parseQuickAdd("Gym 6pm", now).dueDate).toEqual(at(6, 4, 18));
+      expect(parseQuickAdd("Gym 8am", now).dueDate).toEqual(at(6, 5, 8));
+      expect(parseQuickAdd("Gym midnight", now).dueDate).toEqual(at(6, 5));
+    });
+
+    it("ignores impossible 12-hour times", () => {
+      expect(parseQuickAdd("Gym 13pm", now)).toMatchObject({ title: "Gym 13pm", dueDate: undefined });
+    });
+  });
+});
+
+describe("matchQuickAddTags", () => {
+  it("matches existing tags ignoring case and reports the rest", () => {
+    const work = { id: "tag-1", name: "Work", color: "#00f" };
+    expect(matchQuickAddTags(["work", "errands"], [work])).toEqual({ matched: [work], missing: ["errands"] });
+  });
+});
@@ -0,0 +1,282 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  isBefore,
+  isValid,
+  setHours,
+  setMinutes,
+  startOfDay,
+} from "date-fns";
+import { TaskPriority, TaskTag } from "@/types/task";
+
+// Result of parsing a quick-add phrase such as "Pay invoice tomorrow 5pm #work !high"
+export interface QuickAddResult {
+  title: string;
+  dueDate?: Date;
+  priority?: TaskPriority;
+  // Tag names as typed, without the leading "#"
+  tagNames: string[];
+}
+
+export interface QuickAddTagMatch {
+  // Existing tags referenced by the phrase
+  matched: TaskTag[];
+  // Names that don't match any existing tag and need to be created
+  missing: string[];
+}
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  low: "low",
+  medium: "medium",
+  med: "medium",
+  high: "high",
+  urgent: "urgent",
+};
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+// Hour used for "tonight" when no explicit time is given
+const TONIGHT_HOUR = 20;
+
+// Optional connecting word in front of a date or time ("due friday", "at 5pm")
+const LEAD = String.raw`(?:(?:due|by|on|at)\s+)?`;
+
+// Abbreviations like "sun" and "wed" are ordinary words too, so they only count
+// as weekdays with a dot ("wed.") or after "on" ("on wed")
+const WEEKDAY_PATTERN = String.raw`(?:sunday|monday|tuesday|wednesday|thursday|friday|saturday)`;
+const WEEKDAY_ABBREVIATION_PATTERN = String.raw`(?:sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)`;
+const MONTH_PATTERN = String.raw`(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*`;
+
+const TAG_REGEX = /(^|\s)#([\p{L}\p{N}_-]+)/gu;
+const PRIORITY_REGEX = /(^|\s)!(low|medium|med|high|urgent)(?=\s|$)/i;
+
+const TIME_REGEXES: RegExp[] = [
+  new RegExp(String.raw`(^|\s)${LEAD}(\d{1,2})(?::(\d{2}))?\s*(am|pm)(?=\s|$)`, "i"),
+  new RegExp(String.raw`(^|\s)${LEAD}([01]?\d|2[0-3]):([0-5]\d)(?=\s|$)`, "i"),
+  new RegExp(String.raw`(^|\s)${LEAD}(noon|midnight)(?=\s|$)`, "i"),
+];
+
+const findWeekday = (word: string) =>
+  WEEKDAYS.findIndex((day) => word.length >= 3 && day.startsWith(word.slice(0, 3)));
+
+const findMonth = (word: string) => MONTHS.findIndex((month) => month.startsWith(word.slice(0, 3)));
+
+// Next occurrence of a weekday strictly after today
+const nextWeekday = (weekday: number, today: Date) => {
+  const offset = (weekday - today.getDay() + 7) % 7 || 7;
+  return addDays(today, offset);
+};
+
+// A day/month without a year means the next time that date comes around
+const upcomingDate = (month: number, day: number, today: Date) => {
+  const date = new Date(today.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  return isBefore(date, today) ? new Date(today.getFullYear() + 1, month, day) : date;
+};
+
+interface DateRule {
+  regex: RegExp;
+  resolve: (match: RegExpMatchArray, today: Date) => Date | null;
+  // Default hour when the phrase doesn't include a time
+  hour?: number;
+}
+
+const resolveWeekday = (match: RegExpMatchArray, today: Date) => {
+  const weekday = findWeekday(match[2].toLowerCase());
+  return weekday === -1 ? null : nextWeekday(weekday, today);
+};
+
+const DATE_RULES: DateRule[] = [
+  {
+    regex: new RegExp(String.raw`(^|\s)${LEAD}(today)(?=\s|$)`, "i"),
+    resolve: (_match, today) => today,
+  },
+  {
+    regex: new RegExp(String.raw`(^|\s)${LEAD}(tonight)(?=\s|$)`, "i"),
+    resolve: (_match, today) => today,
+    hour: TONIGHT_HOUR,
+  },
+  {
+    regex: new RegExp(String.raw`(^|\s)${LEAD}(tomorrow|tmrw|tmr)(?=\s|$)`, "i"),
+    resolve: (_match, today) => addDays(today, 1),
+  },
+  {
+    regex: new RegExp(String.raw`(^|\s)${LEAD}in\s+(\d+)\s+(day|week|month)s?(?=\s|$)`, "i"),
+    resolve: (match, today) => {
+      const amount = parseInt(match[2], 10);
+      const unit = match[3].toLowerCase();
+      if (unit === "day") return addDays(today, amount);
+      if (unit === "week") return addWeeks(today, amount);
+      return addMonths(today, amount);
+    },
+  },
+  {
+    // "next week" and "next month" start on the first day of that period
+    regex: new RegExp(String.raw`(^|\s)${LEAD}next\s+(week|month)(?=\s|$)`, "i"),
+    resolve: (match, today) =>
+      match[2].toLowerCase() === "week"
+        ? nextWeekday(1, today)
+        : new Date(today.getFullYear(), today.getMonth() + 1, 1),
+  },
+  {
+    regex: new RegExp(String.raw`(^|\s)${LEAD}(?:next\s+)?(${WEEKDAY_PATTERN})(?=\s|$)`, "i"),
+    resolve: resolveWeekday,
+  },
+  {
+    // "fri."
+    regex: new RegExp(String.raw`(^|\s)${LEAD}(?:next\s+)?(${WEEKDAY_ABBREVIATION_PATTERN})\.(?=\s|$)`, "i"),
+    resolve: resolveWeekday,
+  },
+  {
+    // "on fri"
+    regex: new RegExp(String.raw`(^|\s)on\s+(?:next\s+)?(${WEEKDAY_ABBREVIATION_PATTERN})(?=\s|$)`, "i"),
+    resolve: resolveWeekday,
+  },
+  {
+    // 2025-06-05
+    regex: new RegExp(String.raw`(^|\s)${LEAD}(\d{4})-(\d{1,2})-(\d{1,2})(?=\s|$)`, "i"),
+    resolve: (match) => {
+      const month = parseInt(match[3], 10) - 1;
+      const date = new Date(parseInt(match[2], 10), month, parseInt(match[4], 10));
+      return isValid(date) && date.getMonth() === month ? date : null;
+    },
+  },
+  {
+    // "jun 5", "june 5th"
+    regex: new RegExp(String.raw`(^|\s)${LEAD}(${MONTH_PATTERN})\s+(\d{1,2})(?:st|nd|rd|th)?(?=\s|$)`, "i"),
+    resolve: (match, today) => {
+      const month = findMonth(match[2].toLowerCase());
+      return month === -1 ? null : upcomingDate(month, parseInt(match[3], 10), today);
+    },
+  },
+  {
+    // "5 jun", "5th june"
+    regex: new RegExp(String.raw`(^|\s)${LEAD}(\d{1,2})(?:st|nd|rd|th)?\s+(${MONTH_PATTERN})(?=\s|$)`, "i"),
+    resolve: (match, today) => {
+      const month = findMonth(match[3].toLowerCase());
+      return month === -1 ? null : upcomingDate(month, parseInt(match[2], 10), today);
+    },
+  },
+  {
+    // US-style "due 6/5"; without a lead word it could just as well be a fraction
+    regex: new RegExp(String.raw`(^|\s)(?:due|on|by)\s+(\d{1,2})\/(\d{1,2})(?=\s|$)`, "i"),
+    resolve: (match, today) =>
+      upcomingDate(parseInt(match[2], 10) - 1, parseInt(match[3], 10), today),
+  },
+];
+
+// Remove a match from the text, keeping the whitespace that separated it
+const cut = (text: string, match: RegExpMatchArray) =>
+  text.slice(0, match.index) + match[1] + " " + text.slice(match.index + match[0].length);
+
+const parseTime = (text: string): { time?: { hours: number; minutes: number }; text: string } => {
+  for (const regex of TIME_REGEXES) {
+    const match = text.match(regex);
+    if (!match) continue;
+
+    const word = match[2].toLowerCase();
+    if (word === "noon") return { time: { hours: 12, minutes: 0 }, text: cut(text, match) };
+    if (word === "midnight") return { time: { hours: 0, minutes: 0 }, text: cut(text, match) };
+
+    let hours = parseInt(match[2], 10);
+    const minutes = match[3] ? parseInt(match[3], 10) : 0;
+    const meridiem = match[4]?.toLowerCase();
+    if (meridiem) {
+      if (hours < 1 || hours > 12 || minutes > 59) continue;
+      if (meridiem === "pm" && hours !== 12) hours += 12;
+      if (meridiem === "am" && hours === 12) hours = 0;
+    }
+    return { time: { hours, minutes }, text: cut(text, match) };
+  }
+  return { text };
+};
+
+// Parse a quick-add phrase into task fields. Recognises:
+//   #tag                    tags (any number)
+//   !low|!medium|!high|!urgent  priority
+//   today, tonight, tomorrow, friday, fri., on fri, next week, in 3 days,
+//   jun 5, 5 jun, 2025-06-05, due 6/5 (or on/by 6/5)
+//   5pm, 5:30pm, 17:00, noon, midnight (optionally preceded by "at")
+// Whatever is left becomes the title. Runs entirely on the client.
+export const parseQuickAdd = (input: string, now: Date = new Date()): QuickAddResult => {
+  let text = ` ${input} `;
+  const today = startOfDay(now);
+
+  const tagNames: string[] = [];
+  text = text.replace(TAG_REGEX, (_whole, space: string, name: string) => {
+    if (!tagNames.some((existing) => existing.toLowerCase() === name.toLowerCase())) {
+      tagNames.push(name);
+    }
+    return space;
+  });
+
+  let priority: TaskPriority | undefined;
+  const priorityMatch = text.match(PRIORITY_REGEX);
+  if (priorityMatch) {
+    priority = PRIORITY_ALIASES[priorityMatch[2].toLowerCase()];
+    text = cut(text, priorityMatch);
+  }
+
+  // Dates go first so "jun 5" isn't mistaken for a time
+  let day: Date | null = null;
+  let defaultHour: number | undefined;
+  for (const rule of DATE_RULES) {
+    const match = text.match(rule.regex);
+    if (!match) continue;
+    const resolved = rule.resolve(match, today);
+    if (!resolved) continue;
+    day = resolved;
+    defaultHour = rule.hour;
+    text = cut(text, match);
+    break;
+  }
+
+  const parsedTime = parseTime(text);
+  text = parsedTime.text;
+
+  let dueDate: Date | undefined;
+  if (day) {
+    dueDate = day;
+    if (parsedTime.time) {
+      dueDate = setMinutes(setHours(day, parsedTime.time.hours), parsedTime.time.minutes);
+    } else if (defaultHour !== undefined) {
+      dueDate = setHours(day, defaultHour);
+    }
+  } else if (parsedTime.time) {
+    // A time on its own means the next time the clock reaches it
+    dueDate = setMinutes(setHours(today, parsedTime.time.hours), parsedTime.time.minutes);
+    if (isBefore(dueDate, now)) {
+      dueDate = addDays(dueDate, 1);
+    }
+  }
+
+  return {
+    title: text.replace(/\s+/g, " ").trim(),
+    dueDate,
+    priority,
+    tagNames,
+  };
+};
+
+// Match parsed tag names against the user's tags, ignoring case
+export const matchQuickAddTags = (tagNames: string[], tags: TaskTag[]): QuickAddTagMatch => {
+  const matched: TaskTag[] = [];
+  const missing: string[] = [];
+
+  for (const name of tagNames) {
+    const tag = tags.find((t) => t.name.toLowerCase() === name.toLowerCase());
+    if (tag) {
+      matched.push(tag);
+    } else {
+      missing.push(name);
+    }
+  }
+
+  return { matched, missing };
+};
@@ -0,0 +1,184 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarWeeks,
+  format,
+  getDaysInMonth,
+  isAfter,
+  setDate,
+  startOfDay,
+} from "date-fns";
+import { RecurrenceFrequency, RecurrenceRule } from "@/types/task";
+
+// RRULE weekday codes, indexed like Date.getDay() (0 = Sunday)
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: "daily",
+  WEEKLY: "weekly",
+  MONTHLY: "monthly",
+  YEARLY: "yearly",
+};
+
+// Parse an RRULE-style string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE".
+// Returns null for empty or unsupported rules.
+export const parseRRule = (value: string | null | undefined): RecurrenceRule | null => {
+  if (!value) return null;
+
+  const parts = value.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean);
+  const fields: Record<string, string> = {};
+  for (const part of parts) {
+    const [key, fieldValue] = part.split("=");
+    if (!key || fieldValue === undefined) return null;
+    fields[key.trim().toUpperCase()] = fieldValue.trim().toUpperCase();
+  }
+
+  const frequency = RRULE_FREQUENCIES[fields.FREQ];
+  if (!frequency) return null;
+
+  const interval = fields.INTERVAL ? parseInt(fields.INTERVAL, 10) : 1;
+  if (isNaN(interval) || interval < 1) return null;
+
+  const rule: RecurrenceRule = { frequency, interval };
+
+  if (fields.BYDAY) {
+    const byWeekday = fields.BYDAY.split(",").map((day) => RRULE_WEEKDAYS.indexOf(day));
+    if (byWeekday.some((day) => day === -1)) return null;
+    rule.byWeekday = Array.from(new Set(byWeekday)).sort();
+  }
+
+  if (fields.BYMONTHDAY) {
+    const byMonthDay = parseInt(fields.BYMONTHDAY, 10);
+    if (isNaN(byMonthDay) || byMonthDay === 0 || byMonthDay < -1 || byMonthDay > 31) return null;
+    rule.byMonthDay = byMonthDay;
+  }
+
+  if (fields.UNTIL) {
+    const match = fields.UNTIL.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    rule.until = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]), 23, 59, 59);
+  }
+
+  return rule;
+};
+
+// Serialize a rule back to its RRULE string form
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval && rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byWeekday && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${rule.byWeekday.map((day) => RRULE_WEEKDAYS[day]).join(",")}`);
+  }
+  if (rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${format(new Date(rule.until), "yyyyMMdd")}`);
+  }
+
+  return parts.join(";");
+};
+
+// Human readable summary, e.g. "Every 2 weeks on Mon, Wed"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = rule.interval || 1;
+  const units: Record<RecurrenceFrequency, string> = {
+    daily: "day",
+    weekly: "week",
+    monthly: "month",
+    yearly: "year",
+  };
+  const singular: Record<RecurrenceFrequency, string> = {
+    daily: "Daily",
+    weekly: "Weekly",
+    monthly: "Monthly",
+    yearly: "Yearly",
+  };
+
+  let description = interval === 1
+    ? singular[rule.frequency]
+    : `Every ${interval} ${units[rule.frequency]}s`;
+
+  if (rule.frequency === "weekly" && rule.byWeekday && rule.byWeekday.length > 0) {
+    description += ` on ${rule.byWeekday.map((day) => WEEKDAY_LABELS[day]).join(", ")}`;
+  }
+  if (rule.frequency === "monthly" && rule.byMonthDay) {
+    description += rule.byMonthDay === -1 ? " on the last day" : ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.until) {
+    description += ` until ${format(new Date(rule.until), "MMM d, yyyy")}`;
+  }
+
+  return description;
+};
+
+// Resolve BYMONTHDAY for a given month, clamping to the month's length (-1 = last day)
+const setMonthDay = (date: Date, monthDay: number): Date => {
+  const daysInMonth = getDaysInMonth(date);
+  const day = monthDay === -1 ? daysInMonth : Math.min(monthDay, daysInMonth);
+  return setDate(date, day);
+};
+
+// The first occurrence of the rule strictly after `from`, keeping its time of day
+const getOccurrenceAfter = (rule: RecurrenceRule, from: Date): Date => {
+  const interval = rule.interval || 1;
+
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(from, interval);
+    case "weekly": {
+      if (!rule.byWeekday || rule.byWeekday.length === 0) {
+        return addWeeks(from, interval);
+      }
+      // Walk forward day by day; only weeks that are a multiple of the interval count
+      for (let i = 1; i <= 7 * (interval + 1); i++) {
+        const candidate = addDays(from, i);
+        const weeks = differenceInCalendarWeeks(candidate, from);
+        if (weeks % interval === 0 && rule.byWeekday.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+      return addWeeks(from, interval);
+    }
+    case "monthly": {
+      if (!rule.byMonthDay) {
+        return addMonths(from, interval);
+      }
+      const sameMonth = setMonthDay(from, rule.byMonthDay);
+      if (isAfter(sameMonth, from)) {
+        return sameMonth;
+      }
+      return setMonthDay(setDate(addMonths(from, interval), 1), rule.byMonthDay);
+    }
+    case "yearly":
+      return addYears(from, interval);
+  }
+};
+
+// Next due date for a recurring task. Occurrences that would already be in the
+// past (e.g. a task completed late) are skipped so the new task isn't born overdue.
+// Returns null once the rule's UNTIL date has passed.
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  from: Date | string,
+  now: Date = new Date()
+): Date | null => {
+  const today = startOfDay(now);
+  let next = getOccurrenceAfter(rule, new Date(from));
+
+  while (next < today) {
+    next = getOccurrenceAfter(rule, next);
+  }
+
+  if (rule.until && isAfter(next, new Date(rule.until))) {
+    return null;
+  }
+
+  return next;
+};
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types/task";
+import {
+  DEFAULT_SCORING_RULES,
+  ScoringContext,
+  ScoringRule,
+  calculateAiScore,
+  createScoringEngine,
+  explainAiScore,
+} from "./scoring";
+
+const now = new Date("2025-06-04T12:00:00Z");
+const DAY_MS = 1000 * 3600 * 24;
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "task-1",
+  title: "Write report",
+  status: "pending",
+  priority: "low",
+  tags: [],
+  createdAt: now,
+  updatedAt: now,
+  ...overrides,
+});
+
+// A rule that always returns the same signal, to isolate one contribution
+const constantRule = (id: string, weight: number, signal: number): ScoringRule => ({
+  id,
+  weight,
+  evaluate: () => signal,
+  describe: () => id,
+});
+
+describe("calculateAiScore", () => {
+  it("scores a guest task and the same task loaded from Supabase identically", () => {
+    const dueDate = new Date(now.getTime() + DAY_MS);
+    const createdAt = new Date(now.getTime() - 10 * DAY_MS);
+    const blocker = makeTask({ id: "task-2", blockedBy: ["task-1"] });
+
+    // Guest tasks keep Date objects; rows from Supabase carry ISO strings
+    const guestTask = makeTask({ priority: "high", dueDate, createdAt });
+    const signedInTask = makeTask({
+      priority: "high",
+      dueDate: dueDate.toISOString(),
+      createdAt: createdAt.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+
+    const guest = explainAiScore(guestTask, { tasks: [guestTask, blocker], now });
+    const signedIn = explainAiScore(signedInTask, { tasks: [signedInTask, blocker], now });
+
+    expect(signedIn).toEqual(guest);
+    expect(calculateAiScore(signedInTask, { tasks: [signedInTask, blocker], now })).toBe(guest.score);
+  });
+});
+
+describe("default rules", () => {
+  const weights = Object.fromEntries(DEFAULT_SCORING_RULES.map((rule) => [rule.id, rule.weight]));
+  // The rule under test on top of a fixed 50 points, so penalties show too
+  const only = (id: string) => {
+    const engine = createScoringEngine({
+      rules: [DEFAULT_SCORING_RULES.find((rule) => rule.id === id), constantRule("base", 50, 1)],
+    });
+    return { score: (task: Task, context: Partial<ScoringContext>) => engine.score(task, context) - 50 };
+  };
+
+  it("has the documented weights", () => {
+    expect(weights).toEqual({
+      priority: 40,
+      dueDate: 30,
+      tags: 25,
+      description: 5,
+      age: 10,
+      status: 10,
+      dependencies: 10,
+    });
+  });
+
+  it("weights priority by level", () => {
+    const engine = only("priority");
+    expect(engine.score(makeTask({ priority: "urgent" }), { now })).toBe(40);
+    expect(engine.score(makeTask({ priority: "high" }), { now })).toBe(30);
+    expect(engine.score(makeTask({ priority: "medium" }), { now })).toBe(20);
+    expect(engine.score(makeTask({ priority: "low" }), { now })).toBe(10);
+  });
+
+  it("weights due dates by how soon they are", () => {
+    const engine = only("dueDate");
+    const dueIn = (days: number) => makeTask({ dueDate: new Date(now.getTime() + days * DAY_MS) });
+    expect(engine.score(dueIn(1), { now })).toBe(30);
+    expect(engine.score(dueIn(3), { now })).toBe(20);
+    expect(engine.score(dueIn(7), { now })).toBe(10);
+    expect(engine.score(dueIn(14), { now })).toBe(0);
+    expect(engine.score(makeTask(), { now })).toBe(0);
+  });
+
+  it("adds the tags weight for an urgent tag", () => {
+    const engine = only("tags");
+    const tagged = makeTask({ tags: [{ id: "tag-1", name: "Urgent", color: "#f00" }] });
+    expect(engine.score(tagged, { now })).toBe(25);
+    expect(engine.score(makeTask(), { now })).toBe(0);
+  });
+
+  it("adds the description weight for long descriptions", () => {
+    const engine = only("description");
+    expect(engine.score(makeTask({ description: "x".repeat(101) }), { now })).toBe(5);
+    expect(engine.score(makeTask({ description: "short" }), { now })).toBe(0);
+  });
+
+  it("adds up to the age weight over a month", () => {
+    const engine = only("age");
+    const openFor = (days: number) => makeTask({ createdAt: new Date(now.getTime() - days * DAY_MS) });
+    expect(engine.score(openFor(15), { now })).toBe(5);
+    expect(engine.score(openFor(30), { now })).toBe(10);
+    expect(engine.score(openFor(90), { now })).toBe(10);
+  });
+
+  it("weights status", () => {
+    const engine = only("status");
+    expect(engine.score(makeTask({ status: "in-progress" }), { now })).toBe(5);
+    expect(engine.score(makeTask({ status: "completed" }), { now })).toBe(-10);
+    expect(engine.score(makeTask({ status: "pending" }), { now })).toBe(0);
+  });
+
+  it("raises tasks that block others and lowers blocked ones", () => {
+    const engine = only("dependencies");
+    const task = makeTask();
+    const blockedByTask = (id: string) => makeTask({ id, blockedBy: ["task-1"] });
+
+    const blocking = [task, blockedByTask("a"), blockedByTask("b"), blockedByTask("c")];
+    expect(engine.score(task, { tasks: blocking, now })).toBe(10);
+
+    const waiting = makeTask({ blockedBy: ["task-2"] });
+    expect(engine.score(waiting, { tasks: [waiting, makeTask({ id: "task-2" })], now })).toBe(-10);
+  });
+});
+
+describe("createScoringEngine", () => {
+  it("clamps scores to 0-100", () => {
+    const high = createScoringEngine({ rules: [constantRule("a", 80, 1), constantRule("b", 80, 1)] });
+    const low = createScoringEngine({ rules: [constantRule("a", 50, -1)] });
+    expect(high.score(makeTask(), { now })).toBe(100);
+    expect(low.score(makeTask(), { now })).toBe(0);
+  });
+
+  it("clamps rule signals to -1..1", () => {
+    const engine = createScoringEngine({ rules: [constantRule("a", 20, 5)] });
+    expect(engine.score(makeTask(), { now })).toBe(20);
+  });
+
+  it("overrides default weights", () => {
+    const task = makeTask({ priority: "high" });
+    const engine = createScoringEngine({ weights: { priority: 80, age: 0 } });
+    expect(engine.rules.find((rule) => rule.id === "priority")?.weight).toBe(80);
+    expect(engine.score(task, { now })).toBe(60);
+    expect(calculateAiScore(task, { now })).toBe(30);
+  });
+
+  it("explains the three largest contributions, largest first", () => {
+    const engine = createScoringEngine({
+      rules: [
+        constantRule("small", 5, 1),
+        constantRule("penalty", 30, -1),
+        constantRule("large", 40, 1),
+        constantRule("medium", 20, 1),
+        constantRule("zero", 50, 0),
+      ],
+    });
+    expect(engine.evaluate(makeTask(), { now }).rationale).toBe("Large, penalty, medium");
+  });
+
+  it("capitalises the default rationale", () => {
+    const task = makeTask({ priority: "high", dueDate: new Date(now.getTime() + DAY_MS) });
+    expect(explainAiScore(task, { now }).rationale).toBe("High priority, due tomorrow");
+  });
+});
@@ -0,0 +1,192 @@
+import { Task } from "@/types/task";
+
+// A task as seen by the scorer; new tasks don't have an id or timestamps yet
+export type ScorableTask = Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore"> &
+  Partial<Pick<Task, "id" | "createdAt">>;
+
+export interface ScoringContext {
+  // All of the user's tasks, used by rules that look at relationships
+  tasks: Task[];
+  now: Date;
+}
+
+export type ScoringRuleId =
+  | "priority"
+  | "dueDate"
+  | "tags"
+  | "description"
+  | "age"
+  | "status"
+  | "dependencies";
+
+export interface ScoringRule {
+  id: ScoringRuleId | string;
+  // Maximum number of points the rule can add (or remove, for negative signals)
+  weight: number;
+  // Signal between -1 and 1, multiplied by the weight
+  evaluate: (task: ScorableTask, context: ScoringContext) => number;
+  // Short phrase explaining a non-zero signal, e.g. "due tomorrow"
+  describe?: (task: ScorableTask, context: ScoringContext) => string | null;
+}
+
+export interface ScoreResult {
+  score: number;
+  rationale: string;
+}
+
+export interface ScoringConfig {
+  weights?: Partial<Record<ScoringRuleId, number>>;
+  rules?: ScoringRule[];
+}
+
+const DAY_MS = 1000 * 3600 * 24;
+
+// Number of rule explanations included in a rationale
+const MAX_RATIONALE_REASONS = 3;
+
+const daysUntil = (date: Date | string, now: Date) =>
+  Math.round((new Date(date).getTime() - now.getTime()) / DAY_MS);
+
+const PRIORITY_SIGNALS: Record<string, number> = {
+  urgent: 1,
+  high: 0.75,
+  medium: 0.5,
+  low: 0.25,
+};
+
+export const DEFAULT_SCORING_RULES: ScoringRule[] = [
+  {
+    id: "priority",
+    weight: 40,
+    evaluate: (task) => PRIORITY_SIGNALS[task.priority] ?? PRIORITY_SIGNALS.low,
+    describe: (task) => `${task.priority} priority`,
+  },
+  {
+    id: "dueDate",
+    weight: 30,
+    evaluate: (task, { now }) => {
+      if (!task.dueDate) return 0;
+      const diffDays = daysUntil(task.dueDate, now);
+      if (diffDays <= 1) return 1;
+      if (diffDays <= 3) return 2 / 3;
+      if (diffDays <= 7) return 1 / 3;
+      return 0;
+    },
+    describe: (task, { now }) => {
+      const diffDays = daysUntil(task.dueDate, now);
+      if (diffDays < 0) return "overdue";
+      if (diffDays === 0) return "due today";
+      if (diffDays === 1) return "due tomorrow";
+      return `due in ${diffDays} days`;
+    },
+  },
+  {
+    id: "tags",
+    weight: 25,
+    evaluate: (task) =>
+      task.tags.some((tag) => tag.name.toLowerCase().includes("urgent")) ? 1 : 0,
+    describe: (task) =>
+      `tagged ${task.tags.find((tag) => tag.name.toLowerCase().includes("urgent"))?.name}`,
+  },
+  {
+    id: "description",
+    weight: 5,
+    evaluate: (task) => (task.description && task.description.length > 100 ? 1 : 0),
+    describe: () => "detailed description",
+  },
+  {
+    id: "age",
+    weight: 10,
+    // Tasks that have been sitting around for a month get the full bump
+    evaluate: (task, { now }) => {
+      if (!task.createdAt) return 0;
+      const ageDays = (now.getTime() - new Date(task.createdAt).getTime()) / DAY_MS;
+      return Math.min(Math.max(ageDays / 30, 0), 1);
+    },
+    describe: (task, { now }) => {
+      const ageDays = Math.floor((now.getTime() - new Date(task.createdAt).getTime()) / DAY_MS);
+      return ageDays >= 1 ? `open for ${ageDays} day${ageDays !== 1 ? "s" : ""}` : null;
+    },
+  },
+  {
+    id: "status",
+    weight: 10,
+    evaluate: (task) => {
+      if (task.status === "in-progress") return 0.5;
+      if (task.status === "completed") return -1;
+      return 0;
+    },
+    describe: (task) => (task.status === "completed" ? "already completed" : "in progress"),
+  },
+  {
+    id: "dependencies",
+    weight: 10,
+    // Unblocking others raises the score, waiting on others lowers it
+    evaluate: (task, { tasks }) => {
+      const open = tasks.filter((t) => t.status !== "completed");
+      const blocking = task.id ? open.filter((t) => t.blockedBy?.includes(task.id)).length : 0;
+      const blocked = open.some((t) => task.blockedBy?.includes(t.id));
+      return Math.min(blocking / 3, 1) - (blocked ? 1 : 0);
+    },
+    describe: (task, { tasks }) => {
+      const open = tasks.filter((t) => t.status !== "completed");
+      if (open.some((t) => task.blockedBy?.includes(t.id))) return "blocked by other tasks";
+      const blocking = task.id ? open.filter((t) => t.blockedBy?.includes(task.id)).length : 0;
+      return `blocks ${blocking} task${blocking !== 1 ? "s" : ""}`;
+    },
+  },
+];
+
+export const createScoringEngine = (config: ScoringConfig = {}) => {
+  const rules = (config.rules || DEFAULT_SCORING_RULES).map((rule) => ({
+    ...rule,
+    weight: config.weights?.[rule.id as ScoringRuleId] ?? rule.weight,
+  }));
+
+  // Weighted sum of every rule's signal, clamped to 0-100, along with the
+  // explanations of the rules that moved the score the most
+  const evaluate = (task: ScorableTask, context: Partial<ScoringContext> = {}): ScoreResult => {
+    const fullContext: ScoringContext = {
+      tasks: context.tasks || [],
+      now: context.now || new Date(),
+    };
+
+    const contributions = rules.map((rule) => {
+      const signal = Math.min(Math.max(rule.evaluate(task, fullContext), -1), 1);
+      return { rule, points: signal * rule.weight };
+    });
+
+    const total = contributions.reduce((sum, c) => sum + c.points, 0);
+
+    const reasons = contributions
+      .filter((c) => c.points !== 0 && c.rule.describe)
+      .sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+      .map((c) => c.rule.describe(task, fullContext))
+      .filter(Boolean)
+      .slice(0, MAX_RATIONALE_REASONS);
+
+    const rationale = reasons.join(", ");
+
+    return {
+      score: Math.round(Math.min(Math.max(total, 0), 100)),
+      rationale: rationale.charAt(0).toUpperCase() + rationale.slice(1),
+    };
+  };
+
+  const score = (task: ScorableTask, context?: Partial<ScoringContext>): number =>
+    evaluate(task, context).score;
+
+  return { rules, evaluate, score };
+};
+
+const defaultEngine = createScoringEngine();
+
+// Score a task with the default rules; shared by guest and authenticated modes
+export const calculateAiScore = (task: ScorableTask, context?: Partial<ScoringContext>): number => {
+  return defaultEngine.score(task, context);
+};
+
+// Score a task with the default rules and explain the result
+export const explainAiScore = (task: ScorableTask, context?: Partial<ScoringContext>): ScoreResult => {
+  return defaultEngine.evaluate(task, context);
+};
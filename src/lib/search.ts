@@ -0,0 +1,172 @@
+import { Task } from "@/types/task";
+
+// [start, end) offsets of a match in a piece of text
+export type MatchRange = [number, number];
+
+export interface TaskSearchResult {
+  task: Task;
+  score: number;
+}
+
+interface IndexedWord {
+  word: string;
+  start: number;
+}
+
+interface IndexedField {
+  words: IndexedWord[];
+  weight: number;
+}
+
+interface IndexedTask {
+  task: Task;
+  fields: IndexedField[];
+}
+
+// How much a match in each field counts towards a task's rank
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2,
+  description: 1,
+};
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+// Quality of the different kinds of match, best first
+const EXACT = 1;
+const PREFIX = 0.8;
+const SUBSTRING = 0.6;
+const TYPO = 0.5;
+
+export const tokenizeSearch = (text: string): string[] =>
+  Array.from(text.toLowerCase().matchAll(WORD_REGEX), (m) => m[0]);
+
+const indexWords = (text: string): IndexedWord[] =>
+  Array.from(text.toLowerCase().matchAll(WORD_REGEX), (m) => ({ word: m[0], start: m.index ?? 0 }));
+
+// Short terms have to be typed exactly; longer ones may be one or two edits off
+const allowedTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Edit distance counting a swap of two neighbouring letters as one typo
+// (optimal string alignment), giving up as soon as it exceeds `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Best match of one search term among the words of a field
+const matchTerm = (term: string, words: IndexedWord[]): { quality: number; range: MatchRange } | null => {
+  let best: { quality: number; range: MatchRange } | null = null;
+  const typos = allowedTypos(term);
+
+  for (const { word, start } of words) {
+    let quality = 0;
+    let length = term.length;
+    let offset = 0;
+
+    if (word === term) {
+      quality = EXACT;
+    } else if (word.startsWith(term)) {
+      quality = PREFIX;
+    } else if (word.includes(term)) {
+      quality = SUBSTRING;
+      offset = word.indexOf(term);
+    } else if (typos > 0) {
+      // Compare with the whole word, and with its start for words still being typed
+      const distance = Math.min(
+        editDistance(term, word, typos),
+        editDistance(term, word.slice(0, term.length), typos)
+      );
+      if (distance <= typos) {
+        quality = TYPO - 0.1 * distance;
+        length = Math.min(word.length, term.length);
+      }
+    }
+
+    if (quality > (best?.quality ?? 0)) {
+      best = { quality, range: [start + offset, start + offset + length] };
+    }
+  }
+  return best;
+};
+
+const indexTask = (task: Task): IndexedTask => {
+  const tagText = task.tags.map((tag) => tag.name).join(" ");
+  const description = task.description || "";
+  return {
+    task,
+    fields: [
+      { words: indexWords(task.title), weight: FIELD_WEIGHTS.title },
+      { words: indexWords(tagText), weight: FIELD_WEIGHTS.tags },
+      { words: indexWords(description), weight: FIELD_WEIGHTS.description },
+    ],
+  };
+};
+
+// Search index over title, tag names and description. Every term of a search
+// has to match somewhere (allowing typos in longer words); results are ranked
+// by how well and where they matched.
+export const createTaskSearchIndex = (tasks: Task[]) => {
+  const entries = tasks.map(indexTask);
+
+  const search = (text: string): TaskSearchResult[] => {
+    const terms = tokenizeSearch(text);
+    if (terms.length === 0) return tasks.map((task) => ({ task, score: 0 }));
+
+    const results: TaskSearchResult[] = [];
+    for (const { task, fields } of entries) {
+      let score = 0;
+      const everyTermMatched = terms.every((term) => {
+        const best = Math.max(0, ...fields.map((field) => (matchTerm(term, field.words)?.quality ?? 0) * field.weight));
+        score += best;
+        return best > 0;
+      });
+      if (everyTermMatched) results.push({ task, score });
+    }
+
+    // Array.sort is stable, so equally ranked tasks keep their order
+    return results.sort((a, b) => b.score - a.score);
+  };
+
+  return { search };
+};
+
+export const searchTasks = (tasks: Task[], text: string): TaskSearchResult[] =>
+  createTaskSearchIndex(tasks).search(text);
+
+// Parts of `text` matched by a search, merged and in order, for highlighting
+export const findMatchRanges = (text: string, search: string): MatchRange[] => {
+  const terms = tokenizeSearch(search);
+  if (!text || terms.length === 0) return [];
+
+  const words = indexWords(text);
+  const ranges = terms
+    .map((term) => matchTerm(term, words)?.range)
+    .filter((range): range is MatchRange => !!range)
+    .sort((a, b) => a[0] - b[0]);
+
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+    return merged;
+  }, []);
+};
@@ -0,0 +1,39 @@
+import { Subtask, Task, TaskStatus } from "@/types/task";
+
+// Percentage of completed checklist items, or undefined when there are none
+export const getSubtaskProgress = (subtasks?: Subtask[]): number | undefined => {
+  if (!subtasks || subtasks.length === 0) return undefined;
+
+  const completed = subtasks.filter((s) => s.completed).length;
+  return Math.round((completed / subtasks.length) * 100);
+};
+
+// Status implied by a progress value, keeping the current status where it still fits
+export const getStatusForProgress = (status: TaskStatus, progress: number): TaskStatus => {
+  if (progress === 100) return "completed";
+  if (progress > 0 && status !== "in-progress") return "in-progress";
+  if (progress === 0 && status === "completed") return "pending";
+  return status;
+};
+
+// Derive progress, status and completedAt from the checklist when the task has one.
+// Tasks without subtasks are returned untouched so their progress stays manual.
+export const applySubtaskProgress = <T extends Pick<Task, "status" | "progress" | "completedAt" | "subtasks">>(
+  task: T
+): T => {
+  const progress = getSubtaskProgress(task.subtasks);
+  if (progress === undefined) return task;
+
+  const status = getStatusForProgress(task.status, progress);
+  return {
+    ...task,
+    progress,
+    status,
+    completedAt: status === "completed" ? task.completedAt || new Date() : null,
+  };
+};
+
+// Mark every checklist item as completed or not
+export const setAllSubtasks = (subtasks: Subtask[] | undefined, completed: boolean): Subtask[] | undefined => {
+  return subtasks?.map((s) => ({ ...s, completed }));
+};
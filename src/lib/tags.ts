@@ -0,0 +1,26 @@
+import { Task, TaskTag } from "@/types/task";
+
+// Colors offered for new and edited tags
+export const TAG_COLORS = ["#9b87f5", "#5C95FF", "#6ECB63", "#FFCB42", "#FF884B", "#ea384c"];
+
+export const findTagByName = (tags: TaskTag[], name: string, exceptId?: string) =>
+  tags.find((tag) => tag.id !== exceptId && tag.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+// Put the edited copy of a tag on a task. Returns the task unchanged when it
+// doesn't carry the tag.
+export const withUpdatedTag = <T extends Pick<Task, "tags">>(task: T, tag: TaskTag): T =>
+  task.tags.some((t) => t.id === tag.id)
+    ? { ...task, tags: task.tags.map((t) => (t.id === tag.id ? tag : t)) }
+    : task;
+
+// Take a tag off a task, replacing it with `replacement` when given (unless the
+// task already has that one). Returns the task unchanged when it doesn't carry the tag.
+export const withoutTag = <T extends Pick<Task, "tags">>(task: T, tagId: string, replacement?: TaskTag): T => {
+  if (!task.tags.some((t) => t.id === tagId)) return task;
+
+  const tags = task.tags.filter((t) => t.id !== tagId);
+  if (replacement && !tags.some((t) => t.id === replacement.id)) {
+    tags.push(replacement);
+  }
+  return { ...task, tags };
+};
@@ -0,0 +1,55 @@
+import { Task, TaskStatus } from "@/types/task";
+import { matchesTaskQuery, parseTaskQuery } from "@/lib/taskQuery";
+import { searchTasks } from "@/lib/search";
+
+export interface TaskFilterCriteria {
+  projectId?: string;
+  tagId?: string;
+  status?: TaskStatus | "all";
+  // Free text or a filter query such as "tag:work due:<7d -status:completed"
+  searchQuery?: string;
+  // Tasks the server's full-text search found for the same text, e.g. through
+  // stemming, which the local index would miss
+  serverMatchIds?: Set<string>;
+}
+
+// Apply the dashboard filters (project, tag, status and search) to a task list.
+// With search text the result is ranked by relevance, best match first.
+export const filterTasks = (tasks: Task[], criteria: TaskFilterCriteria): Task[] => {
+  const { projectId, tagId, status = "all", searchQuery = "", serverMatchIds } = criteria;
+  const query = parseTaskQuery(searchQuery);
+  const now = new Date();
+
+  const filtered = tasks.filter((task) => {
+    // Project filter
+    if (projectId && task.projectId !== projectId) {
+      return false;
+    }
+
+    // Tag filter
+    if (tagId && !task.tags.some((tag) => tag.id === tagId)) {
+      return false;
+    }
+
+    // Status filter
+    if (status !== "all" && task.status !== status) {
+      return false;
+    }
+
+    // Filter terms of the search query
+    if (!matchesTaskQuery(task, query, now)) {
+      return false;
+    }
+
+    return true;
+  });
+
+  if (!query.text.trim()) return filtered;
+
+  const ranked = searchTasks(filtered, query.text).map((result) => result.task);
+  const rankedIds = new Set(ranked.map((task) => task.id));
+  const serverOnly = serverMatchIds
+    ? filtered.filter((task) => serverMatchIds.has(task.id) && !rankedIds.has(task.id))
+    : [];
+  return [...ranked, ...serverOnly];
+};
@@ -0,0 +1,244 @@
+import { addDays, endOfWeek, isBefore, isSameDay, startOfDay, startOfWeek } from "date-fns";
+import { Task, TaskPriority, TaskStatus } from "@/types/task";
+
+// Inclusive bounds; either side may be left open
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export type DueFilter =
+  | { kind: "overdue" | "today" | "tomorrow" | "week" | "none" | "any" }
+  // Due date compared with today plus a number of days, e.g. "<7d"
+  | { kind: "relative"; op: "<" | "<=" | ">" | ">="; days: number };
+
+// A parsed filter query such as `tag:work due:<7d -status:completed report`
+export interface TaskQuery {
+  // Every group has to match, and a group matches when the task has any of its
+  // tags: "tag:a,b" is one group (any), "tag:a tag:b" are two groups (all)
+  tagGroups: string[][];
+  excludeTags: string[];
+  statuses: TaskStatus[];
+  excludeStatuses: TaskStatus[];
+  priorities: TaskPriority[];
+  excludePriorities: TaskPriority[];
+  due: { filter: DueFilter; negate: boolean }[];
+  aiScore?: NumberRange;
+  progress?: NumberRange;
+  // Remaining words, for the search index in lib/search
+  text: string;
+  // Terms with a known key but a value that couldn't be read, e.g. "due:someday"
+  errors: string[];
+}
+
+const STATUS_ALIASES: Record<string, TaskStatus[]> = {
+  pending: ["pending"],
+  todo: ["pending"],
+  "in-progress": ["in-progress"],
+  inprogress: ["in-progress"],
+  doing: ["in-progress"],
+  started: ["in-progress"],
+  completed: ["completed"],
+  done: ["completed"],
+  open: ["pending", "in-progress"],
+};
+
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  low: "low",
+  medium: "medium",
+  med: "medium",
+  high: "high",
+  urgent: "urgent",
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  tag: "tag",
+  tags: "tag",
+  status: "status",
+  is: "status",
+  priority: "priority",
+  p: "priority",
+  due: "due",
+  score: "score",
+  ai: "score",
+  progress: "progress",
+};
+
+// key:value (value optionally quoted), "quoted text", #tag, or a plain word
+const TERM_REGEX = /(-?)([a-z]+):(?:"([^"]*)"|(\S+))|(-?)#(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/gi;
+
+const RELATIVE_DUE_REGEX = /^(<=|>=|<|>)(\d+)([dw])$/;
+const RANGE_REGEX = /^(\d+)-(\d+)$/;
+const COMPARISON_REGEX = /^(<=|>=|<|>)?(\d+)$/;
+
+export const emptyTaskQuery = (): TaskQuery => ({
+  tagGroups: [],
+  excludeTags: [],
+  statuses: [],
+  excludeStatuses: [],
+  priorities: [],
+  excludePriorities: [],
+  due: [],
+  text: "",
+  errors: [],
+});
+
+const splitValues = (value: string) =>
+  value.split(",").map((v) => v.trim()).filter(Boolean);
+
+const parseDue = (value: string): DueFilter | null => {
+  const keyword = value.toLowerCase();
+  if (keyword === "week" || keyword === "this-week") return { kind: "week" };
+  if (["overdue", "today", "tomorrow", "none", "any"].includes(keyword)) {
+    return { kind: keyword as "overdue" | "today" | "tomorrow" | "none" | "any" };
+  }
+
+  const match = keyword.match(RELATIVE_DUE_REGEX);
+  if (!match) return null;
+  const days = parseInt(match[2], 10) * (match[3] === "w" ? 7 : 1);
+  return { kind: "relative", op: match[1] as "<" | "<=" | ">" | ">=", days };
+};
+
+// "50-80", ">70", "<=20" or an exact "100"
+const parseRange = (value: string): NumberRange | null => {
+  const range = value.match(RANGE_REGEX);
+  if (range) {
+    const [min, max] = [parseInt(range[1], 10), parseInt(range[2], 10)];
+    return min <= max ? { min, max } : null;
+  }
+
+  const comparison = value.match(COMPARISON_REGEX);
+  if (!comparison) return null;
+  const number = parseInt(comparison[2], 10);
+  switch (comparison[1]) {
+    case ">": return { min: number + 1 };
+    case ">=": return { min: number };
+    case "<": return { max: number - 1 };
+    case "<=": return { max: number };
+    default: return { min: number, max: number };
+  }
+};
+
+// Read a filter query. Unknown keys ("note:") are kept as text, so plain
+// searches behave as before.
+export const parseTaskQuery = (input: string): TaskQuery => {
+  const query = emptyTaskQuery();
+  const words: string[] = [];
+
+  for (const match of input.matchAll(TERM_REGEX)) {
+    const [term, negation, rawKey, quotedValue, plainValue, tagNegation, quotedTag, plainTag, quotedText, word] = match;
+
+    if (quotedTag !== undefined || plainTag !== undefined) {
+      const name = (quotedTag ?? plainTag).trim();
+      if (!name) continue;
+      if (tagNegation) query.excludeTags.push(name);
+      else query.tagGroups.push([name]);
+      continue;
+    }
+
+    const key = rawKey ? KEY_ALIASES[rawKey.toLowerCase()] : undefined;
+    if (!key) {
+      words.push(quotedText ?? word ?? term);
+      continue;
+    }
+
+    const value = (quotedValue ?? plainValue).trim();
+    const negate = negation === "-";
+
+    if (key === "tag") {
+      const names = quotedValue !== undefined ? [value] : splitValues(value);
+      if (names.length === 0) query.errors.push(term);
+      else if (negate) query.excludeTags.push(...names);
+      else query.tagGroups.push(names);
+    } else if (key === "status") {
+      const statuses = splitValues(value.toLowerCase()).map((v) => STATUS_ALIASES[v]);
+      if (statuses.length === 0 || statuses.some((s) => !s)) query.errors.push(term);
+      else (negate ? query.excludeStatuses : query.statuses).push(...statuses.flat());
+    } else if (key === "priority") {
+      const priorities = splitValues(value.toLowerCase()).map((v) => PRIORITY_ALIASES[v]);
+      if (priorities.length === 0 || priorities.some((p) => !p)) query.errors.push(term);
+      else (negate ? query.excludePriorities : query.priorities).push(...priorities);
+    } else if (key === "due") {
+      const filter = parseDue(value);
+      if (filter) query.due.push({ filter, negate });
+      else query.errors.push(term);
+    } else {
+      const range = negate ? null : parseRange(value);
+      if (!range) query.errors.push(term);
+      else if (key === "score") query.aiScore = range;
+      else query.progress = range;
+    }
+  }
+
+  query.text = words.join(" ");
+  return query;
+};
+
+const inRange = (value: number, range: NumberRange) =>
+  (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+
+const matchesDue = (task: Task, filter: DueFilter, now: Date) => {
+  if (filter.kind === "none") return !task.dueDate;
+  if (!task.dueDate) return false;
+
+  const dueDate = new Date(task.dueDate);
+  const today = startOfDay(now);
+  switch (filter.kind) {
+    case "any":
+      return true;
+    case "overdue":
+      return task.status !== "completed" && isBefore(dueDate, today);
+    case "today":
+      return isSameDay(dueDate, today);
+    case "tomorrow":
+      return isSameDay(dueDate, addDays(today, 1));
+    case "week":
+      return !isBefore(dueDate, startOfWeek(today)) && !isBefore(endOfWeek(today), dueDate);
+    case "relative": {
+      const dueDay = startOfDay(dueDate).getTime();
+      const limit = addDays(today, filter.days).getTime();
+      if (filter.op === "<") return dueDay < limit;
+      if (filter.op === "<=") return dueDay <= limit;
+      if (filter.op === ">") return dueDay > limit;
+      return dueDay >= limit;
+    }
+  }
+};
+
+const hasTagNamed = (task: Task, name: string) =>
+  task.tags.some((tag) => tag.name.toLowerCase() === name.toLowerCase());
+
+// Whether a task passes the filter terms of a query. The free text is left to
+// the search index, which also ranks the results.
+export const matchesTaskQuery = (task: Task, query: TaskQuery, now: Date = new Date()): boolean => {
+  if (!query.tagGroups.every((group) => group.some((name) => hasTagNamed(task, name)))) return false;
+  if (query.excludeTags.some((name) => hasTagNamed(task, name))) return false;
+
+  if (query.statuses.length > 0 && !query.statuses.includes(task.status)) return false;
+  if (query.excludeStatuses.includes(task.status)) return false;
+
+  if (query.priorities.length > 0 && !query.priorities.includes(task.priority)) return false;
+  if (query.excludePriorities.includes(task.priority)) return false;
+
+  if (!query.due.every(({ filter, negate }) => matchesDue(task, filter, now) !== negate)) return false;
+
+  if (query.aiScore && !inRange(task.aiScore ?? 0, query.aiScore)) return false;
+  if (query.progress && !inRange(task.progress ?? 0, query.progress)) return false;
+
+  return true;
+};
+
+// Quote a value for use in a query when it contains spaces, e.g. tag:"Deep work"
+export const quoteQueryValue = (value: string) => (/[\s,"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value);
+
+// Syntax summary shown next to the search box
+export const TASK_QUERY_HELP: { example: string; description: string }[] = [
+  { example: "tag:work", description: "Tagged Work (tag:work,home for either)" },
+  { example: "tag:work tag:urgent", description: "Tagged both" },
+  { example: "-status:completed", description: "Leave out completed tasks (also status:open)" },
+  { example: "priority:high,urgent", description: "High or urgent priority" },
+  { example: "due:overdue", description: "Also due:today, due:tomorrow, due:week, due:none" },
+  { example: "due:<7d", description: "Due within a week (>, >=, <=, and w for weeks)" },
+  { example: "score:>70", description: "AI score above 70 (ranges like 50-80 work too)" },
+  { example: "progress:<50", description: "Less than half done" },
+];
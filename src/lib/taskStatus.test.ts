@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Task } from "@/types/task";
+import { applySubtaskProgress } from "./subtasks";
+import { handOverRecurrence, withStatus } from "./taskStatus";
+
+const weekly = { frequency: "weekly" as const, interval: 1 };
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "task-1",
+  title: "Water plants",
+  status: "in-progress",
+  priority: "medium",
+  progress: 50,
+  dueDate: new Date(2025, 5, 4),
+  recurrence: weekly,
+  tags: [],
+  createdAt: new Date(2025, 5, 1),
+  updatedAt: new Date(2025, 5, 1),
+  ...overrides,
+});
+
+describe("handOverRecurrence", () => {
+  // Occurrences are never scheduled in the past
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2025, 5, 4, 10));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("moves the rule to the next occurrence when the status is set to completed", () => {
+    const task = makeTask();
+    const { task: completed, nextTask } = handOverRecurrence(task, withStatus(task, "completed"));
+
+    expect(completed).toMatchObject({ status: "completed", recurrence: null });
+    expect(nextTask).toMatchObject({
+      title: "Water plants",
+      status: "pending",
+      progress: 0,
+      dueDate: new Date(2025, 5, 11),
+      recurrence: weekly,
+    });
+  });
+
+  it("hands over when progress reaches 100", () => {
+    const task = makeTask();
+    const { task: completed, nextTask } = handOverRecurrence(task, { ...task, status: "completed", progress: 100 });
+
+    expect(completed.recurrence).toBeNull();
+    expect(nextTask?.dueDate).toEqual(new Date(2025, 5, 11));
+  });
+
+  it("hands over when the last checklist item is ticked", () => {
+    const task = makeTask({
+      subtasks: [
+        { id: "a", title: "Kitchen", completed: true },
+        { id: "b", title: "Balcony", completed: false },
+      ],
+    });
+    const ticked = applySubtaskProgress({
+      ...task,
+      subtasks: task.subtasks.map((s) => ({ ...s, completed: true })),
+    });
+    const { task: completed, nextTask } = handOverRecurrence(task, ticked);
+
+    expect(completed).toMatchObject({ status: "completed", recurrence: null });
+    expect(nextTask?.subtasks).toEqual([
+      { id: "a", title: "Kitchen", completed: false },
+      { id: "b", title: "Balcony", completed: false },
+    ]);
+  });
+
+  it("leaves edits that don't complete the task alone", () => {
+    const task = makeTask();
+    const edited = { ...task, title: "Water all plants" };
+
+    expect(handOverRecurrence(task, edited)).toEqual({ task: edited, nextTask: null });
+  });
+
+  it("doesn't hand over again for a task that was already completed", () => {
+    const task = makeTask({ status: "completed" });
+    const edited = { ...task, title: "Water all plants" };
+
+    expect(handOverRecurrence(task, edited)).toEqual({ task: edited, nextTask: null });
+  });
+
+  it("keeps a task that loses its rule in the same edit from spawning", () => {
+    const task = makeTask();
+    const edited = { ...withStatus(task, "completed"), recurrence: null };
+
+    expect(handOverRecurrence(task, edited).nextTask).toBeNull();
+  });
+
+  it("completes the task without a next occurrence once the rule has ended", () => {
+    const task = makeTask({ recurrence: { ...weekly, until: new Date(2025, 5, 8) } });
+    const { task: completed, nextTask } = handOverRecurrence(task, withStatus(task, "completed"));
+
+    expect(completed.recurrence).toBeNull();
+    expect(nextTask).toBeNull();
+  });
+});
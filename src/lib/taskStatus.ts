@@ -0,0 +1,61 @@
+import { Task, TaskStatus } from "@/types/task";
+import { getNextOccurrence } from "@/lib/recurrence";
+import { setAllSubtasks } from "@/lib/subtasks";
+
+export type NewTask = Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore">;
+
+// Whether moving the task to `status` completes a recurring task, which then
+// hands its rule over to the next occurrence
+export const spawnsNextOccurrence = (task: Task, status: TaskStatus) =>
+  status === "completed" && task.status !== "completed" && !!task.recurrence;
+
+// The task moved to another status, keeping progress, completedAt and the
+// checklist consistent with it
+export const withStatus = (task: Task, status: TaskStatus): Task => {
+  const completedAt = status === "completed" ? new Date() : undefined;
+  const progress = status === "completed" ? 100 :
+                   status === "in-progress" ? Math.max(task.progress || 0, 25) : 0;
+
+  // Completing a task checks off its whole checklist, reopening it clears the checklist
+  const subtasks = status === "completed" ? setAllSubtasks(task.subtasks, true) :
+                   status === "pending" ? setAllSubtasks(task.subtasks, false) : task.subtasks;
+
+  return {
+    ...task,
+    status,
+    completedAt,
+    progress,
+    subtasks,
+    updatedAt: new Date(),
+  };
+};
+
+// Next instance of a recurring task, starting from its due date (or today when
+// it had none). Null once the rule has ended.
+export const getNextOccurrenceTask = (task: Task): NewTask | null => {
+  const nextDueDate = getNextOccurrence(task.recurrence, task.dueDate || new Date());
+  if (!nextDueDate) return null;
+
+  return {
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    status: "pending",
+    progress: 0,
+    dueDate: nextDueDate,
+    recurrence: task.recurrence,
+    tags: task.tags,
+    subtasks: setAllSubtasks(task.subtasks, false),
+    projectId: task.projectId,
+    completedAt: null,
+  };
+};
+
+// Apply an edit that may complete a recurring task, whether through its status,
+// its progress or its checklist. The rule moves to the next occurrence, which is
+// returned for the caller to create, so reopening and completing the task again
+// doesn't spawn duplicates.
+export const handOverRecurrence = (previous: Task, task: Task): { task: Task; nextTask: NewTask | null } => {
+  if (!task.recurrence || !spawnsNextOccurrence(previous, task.status)) return { task, nextTask: null };
+  return { task: { ...task, recurrence: null }, nextTask: getNextOccurrenceTask(task) };
+};
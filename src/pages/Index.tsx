@@ -1,26 +1,41 @@
 import { useState } from "react";
 import { Link } from "react-router-dom";
-import { TaskProvider } from "@/context/TaskContext";
+import { TaskProvider, useTaskContext } from "@/context/TaskContext";
 import { useAuth } from "@/context/AuthContext";
 import { TaskList } from "@/components/TaskList";
-import { TaskFilters } from "@/components/TaskFilters";
+import { TaskFilters, TASK_SEARCH_INPUT_ID } from "@/components/TaskFilters";
 import { TaskForm } from "@/components/TaskForm";
 import { TaskAnalytics } from "@/components/TaskAnalytics";
+import { TaskBoard } from "@/components/TaskBoard";
+import { TaskCalendar } from "@/components/TaskCalendar";
+import { ProjectSwitcher } from "@/components/ProjectSwitcher";
+import { QuickAdd } from "@/components/QuickAdd";
+import { RealTimeSync } from "@/components/RealTimeSync";
+import { GuestImportDialog } from "@/components/GuestImportDialog";
+import { CommandPalette, DashboardView } from "@/components/CommandPalette";
+import { KeyboardShortcutsDialog } from "@/components/KeyboardShortcutsDialog";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Plus, LayoutDashboard, List, Calendar, Settings, User, LogOut, Sparkles, AlertTriangle } from "lucide-react";
-import { TaskStatus } from "@/types/task";
+import { Plus, LayoutDashboard, List, Calendar, Settings, User, LogOut, Sparkles, AlertTriangle, Columns3, Loader2 } from "lucide-react";
+import { Task, TaskStatus } from "@/types/task";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
 const Dashboard = () => {
   const [showAddTask, setShowAddTask] = useState(false);
+  const [currentProject, setCurrentProject] = useState("");
   const [currentFilter, setCurrentFilter] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<TaskStatus | "all">("all");
   const [showAiPrioritized, setShowAiPrioritized] = useState(false);
-  const [activeView, setActiveView] = useState<"tasks" | "analytics">("tasks");
+  const [activeView, setActiveView] = useState<DashboardView>("tasks");
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Task opened for editing from the command palette
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
   const { signOut, user, isGuest, setGuestMode } = useAuth();
+  const { prioritizeWithAi, aiPrioritizing, undo, redo } = useTaskContext();
   
   const isMobile = useIsMobile();
 
@@ -32,6 +47,14 @@ const Dashboard = () => {
     setShowAddTask(false);
   };
 
+  // Turning AI Priority on refreshes the ranking through the ai-prioritize function
+  const handleAiPrioritizedChange = (enabled: boolean) => {
+    setShowAiPrioritized(enabled);
+    if (enabled) {
+      prioritizeWithAi();
+    }
+  };
+
   const handleSignOut = async () => {
     if (isGuest) {
       setGuestMode(false);
@@ -40,6 +63,24 @@ const Dashboard = () => {
     }
   };
 
+  const focusSearch = () => {
+    document.getElementById(TASK_SEARCH_INPUT_ID)?.focus();
+  };
+
+  useKeyboardShortcuts({
+    commandPalette: () => setShowCommandPalette((open) => !open),
+    newTask: handleAddTask,
+    search: focusSearch,
+    viewTasks: () => setActiveView("tasks"),
+    viewBoard: () => setActiveView("board"),
+    viewCalendar: () => setActiveView("calendar"),
+    viewAnalytics: () => setActiveView("analytics"),
+    aiPriority: () => !aiPrioritizing && handleAiPrioritizedChange(!showAiPrioritized),
+    undo,
+    redo,
+    help: () => setShowShortcuts(true),
+  });
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-accent/20">
       <header className="sticky top-0 z-10 bg-background/90 backdrop-blur-md border-b border-border/50 px-4 py-3">
@@ -92,6 +133,10 @@ const Dashboard = () => {
         <div className="flex flex-col gap-5">
           {/* Mobile Tabs */}
           <div className="w-full flex overflow-x-auto no-scrollbar space-x-2 pb-2">
+            <ProjectSwitcher
+              currentProject={currentProject}
+              onProjectChange={setCurrentProject}
+            />
             <Button
               variant={activeView === "tasks" ? "default" : "outline"}
               className={`flex justify-start whitespace-nowrap rounded-full ${
@@ -103,6 +148,28 @@ const Dashboard = () => {
               <List className="mr-1.5 h-3.5 w-3.5" />
               Tasks
             </Button>
+            <Button
+              variant={activeView === "board" ? "default" : "outline"}
+              className={`flex justify-start whitespace-nowrap rounded-full ${
+                activeView === "board" ? "bg-task-purple hover:bg-task-purple-dark text-white shadow-sm" : "border-border/50"
+              }`}
+              size="sm"
+              onClick={() => setActiveView("board")}
+            >
+              <Columns3 className="mr-1.5 h-3.5 w-3.5" />
+              Board
+            </Button>
+            <Button
+              variant={activeView === "calendar" ? "default" : "outline"}
+              className={`flex justify-start whitespace-nowrap rounded-full ${
+                activeView === "calendar" ? "bg-task-purple hover:bg-task-purple-dark text-white shadow-sm" : "border-border/50"
+              }`}
+              size="sm"
+              onClick={() => setActiveView("calendar")}
+            >
+              <Calendar className="mr-1.5 h-3.5 w-3.5" />
+              Calendar
+            </Button>
             <Button
               variant={activeView === "analytics" ? "default" : "outline"}
               className={`flex justify-start whitespace-nowrap rounded-full ${
@@ -120,10 +187,15 @@ const Dashboard = () => {
                 showAiPrioritized ? "bg-task-purple hover:bg-task-purple-dark text-white shadow-sm" : "border-border/50"
               }`}
               size="sm"
-              onClick={() => setShowAiPrioritized(!showAiPrioritized)}
+              onClick={() => handleAiPrioritizedChange(!showAiPrioritized)}
+              disabled={aiPrioritizing}
             >
-              <Sparkles className="mr-1.5 h-3.5 w-3.5" />
-              AI Priority
+              {aiPrioritizing ? (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Sparkles className="mr-1.5 h-3.5 w-3.5" />
+              )}
+              {aiPrioritizing ? "Prioritizing..." : "AI Priority"}
             </Button>
             {!isGuest && (
               <Link to="/profile" className="ml-auto">
@@ -150,12 +222,17 @@ const Dashboard = () => {
 
           {/* Main content */}
           <div className="flex-1 min-w-0">
+            {/* Natural-language quick add */}
+            <div className="mb-4">
+              <QuickAdd projectId={currentProject} />
+            </div>
+
             {/* Filters bar */}
             <TaskFilters
               onFilterChange={setCurrentFilter}
               onSearchChange={setSearchQuery}
               onStatusFilterChange={setStatusFilter}
-              onAiPrioritizedChange={setShowAiPrioritized}
+              onAiPrioritizedChange={handleAiPrioritizedChange}
               currentFilter={currentFilter}
               currentStatus={statusFilter}
               aiPrioritized={showAiPrioritized}
@@ -165,11 +242,27 @@ const Dashboard = () => {
             <div className="mt-4">
               {activeView === "tasks" ? (
                 <TaskList
+                  projectId={currentProject}
+                  filter={currentFilter}
+                  searchQuery={searchQuery}
+                  statusFilter={statusFilter}
+                  showAiPrioritized={showAiPrioritized}
+                />
+              ) : activeView === "board" ? (
+                <TaskBoard
+                  projectId={currentProject}
                   filter={currentFilter}
                   searchQuery={searchQuery}
                   statusFilter={statusFilter}
                   showAiPrioritized={showAiPrioritized}
                 />
+              ) : activeView === "calendar" ? (
+                <TaskCalendar
+                  projectId={currentProject}
+                  filter={currentFilter}
+                  searchQuery={searchQuery}
+                  statusFilter={statusFilter}
+                />
               ) : (
                 <TaskAnalytics />
               )}
@@ -183,9 +276,36 @@ const Dashboard = () => {
           <DialogHeader>
             <DialogTitle className="text-center text-lg font-semibold">Add New Task</DialogTitle>
           </DialogHeader>
-          <TaskForm onComplete={handleAddTaskComplete} />
+          <TaskForm onComplete={handleAddTaskComplete} defaultProjectId={currentProject} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingTask} onOpenChange={(open) => !open && setEditingTask(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Edit Task</DialogTitle>
+          </DialogHeader>
+          {editingTask && (
+            <TaskForm task={editingTask} onComplete={() => setEditingTask(null)} isEditMode />
+          )}
         </DialogContent>
       </Dialog>
+
+      <CommandPalette
+        open={showCommandPalette}
+        onOpenChange={setShowCommandPalette}
+        onAddTask={handleAddTask}
+        onEditTask={setEditingTask}
+        onViewChange={setActiveView}
+        onFilterChange={setCurrentFilter}
+        onStatusFilterChange={setStatusFilter}
+        aiPrioritized={showAiPrioritized}
+        onAiPrioritizedChange={handleAiPrioritizedChange}
+        onShowShortcuts={() => setShowShortcuts(true)}
+        onSignOut={handleSignOut}
+      />
+
+      <KeyboardShortcutsDialog open={showShortcuts} onOpenChange={setShowShortcuts} />
       
       {/* Mobile Action Button */}
       <div className="fixed bottom-6 right-6">
@@ -202,8 +322,13 @@ const Dashboard = () => {
 };
 
 const Index = () => {
+  const { isAuthenticated } = useAuth();
+
   return (
     <TaskProvider>
+      {/* Replays offline changes; needs the task context */}
+      {isAuthenticated && <RealTimeSync />}
+      {isAuthenticated && <GuestImportDialog />}
       <Dashboard />
     </TaskProvider>
   );
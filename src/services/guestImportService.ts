@@ -0,0 +1,125 @@
+import * as taskService from "@/services/taskService";
+import { GuestData } from "@/lib/guestStorage";
+import { Task, TaskProject, TaskTag } from "@/types/task";
+
+export interface GuestImportResult {
+  tasks: number;
+  tagsCreated: number;
+  // Guest tags that matched an existing account tag by name
+  tagsMerged: number;
+  projects: number;
+  views: number;
+  failed: number;
+}
+
+// Whether guest mode left anything worth importing. Tags alone don't count,
+// since guest mode always starts with the default set.
+export const hasGuestDataToImport = (data: GuestData) =>
+  data.tasks.length > 0 || data.projects.length > 0 || data.views.length > 0;
+
+// Copy guest tasks, tags, projects and saved views into the signed-in account.
+// Guest tags are matched to the account's tags by name (or created) and tasks are
+// re-pointed at the server tag ids. Saved views refer to tags by name, so their
+// queries carry over as they are. Task, project and view ids are kept, which
+// makes re-running an import after a partial failure safe.
+export const importGuestData = async (
+  data: GuestData,
+  userId: string,
+  accountTags: TaskTag[]
+): Promise<GuestImportResult> => {
+  const result: GuestImportResult = { tasks: 0, tagsCreated: 0, tagsMerged: 0, projects: 0, views: 0, failed: 0 };
+
+  // Guest tag id -> account tag
+  const tagMap = new Map<string, TaskTag>();
+  const knownTags = [...accountTags];
+
+  const resolveTag = async (guestTag: TaskTag): Promise<TaskTag | undefined> => {
+    const mapped = tagMap.get(guestTag.id);
+    if (mapped) return mapped;
+
+    const existing = knownTags.find((tag) => tag.name.toLowerCase() === guestTag.name.toLowerCase());
+    if (existing) {
+      tagMap.set(guestTag.id, existing);
+      result.tagsMerged++;
+      return existing;
+    }
+
+    try {
+      const created = await taskService.createTag({ name: guestTag.name, color: guestTag.color }, userId);
+      tagMap.set(guestTag.id, created);
+      knownTags.push(created);
+      result.tagsCreated++;
+      return created;
+    } catch (error) {
+      console.error("Error importing tag:", guestTag, error);
+      result.failed++;
+    }
+  };
+
+  for (const tag of data.tags) {
+    await resolveTag(tag);
+  }
+
+  const importedProjectIds = new Set<string>();
+  for (const project of data.projects) {
+    try {
+      await taskService.createProject(project as TaskProject, userId);
+      importedProjectIds.add(project.id);
+      result.projects++;
+    } catch (error) {
+      console.error("Error importing project:", project, error);
+      result.failed++;
+    }
+  }
+
+  // Tasks go in without dependencies first, since a blocker may come later in the list
+  const importedTaskIds = new Set<string>();
+  const importedTasks = new Map<string, Task>();
+  for (const task of data.tasks) {
+    const tags: TaskTag[] = [];
+    for (const guestTag of task.tags || []) {
+      const tag = await resolveTag(guestTag);
+      if (tag && !tags.some((t) => t.id === tag.id)) tags.push(tag);
+    }
+
+    const imported: Task = {
+      ...task,
+      tags,
+      projectId: task.projectId && importedProjectIds.has(task.projectId) ? task.projectId : null,
+    };
+    importedTasks.set(task.id, imported);
+
+    try {
+      await taskService.createTask({ ...imported, blockedBy: [] });
+      importedTaskIds.add(task.id);
+      result.tasks++;
+    } catch (error) {
+      console.error("Error importing task:", task, error);
+      result.failed++;
+    }
+  }
+
+  for (const task of importedTasks.values()) {
+    const blockedBy = (task.blockedBy || []).filter((id) => importedTaskIds.has(id));
+    if (!importedTaskIds.has(task.id) || blockedBy.length === 0) continue;
+
+    try {
+      await taskService.updateTask({ ...task, blockedBy });
+    } catch (error) {
+      console.error("Error importing task dependencies:", task, error);
+      result.failed++;
+    }
+  }
+
+  for (const view of data.views) {
+    try {
+      await taskService.createSavedView(view, userId);
+      result.views++;
+    } catch (error) {
+      console.error("Error importing saved view:", view, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,150 @@
+import { QueuedOperation } from "@/hooks/use-offline-storage";
+import * as taskService from "@/services/taskService";
+import { SavedView, Task, TaskProject, TaskTag } from "@/types/task";
+
+// Tasks changed together by a bulk action, sent in one request. Queued as an
+// "update" (which also creates tasks, e.g. when a delete is undone) or a "delete".
+export interface TaskBatch {
+  id: string;
+  tasks: Task[];
+  // Server version each task was at: checked when the batch is written, and
+  // used to rebase later edits onto the batch
+  baseVersions: Record<string, number>;
+}
+
+export type SyncEntity = "task" | "tasks" | "tag" | "project" | "view";
+export type SyncRecord = Task | TaskBatch | TaskTag | TaskProject | SavedView;
+export type SyncOperation = QueuedOperation<SyncRecord> & { entity: SyncEntity };
+
+// Tasks written by an operation, whether it carries one task or a batch
+export const getOperationTasks = (operation: SyncOperation): Task[] => {
+  if (operation.entity === "tasks") return (operation.data as TaskBatch).tasks;
+  return operation.entity === "task" ? [operation.data as Task] : [];
+};
+
+// Records an operation touches, e.g. "task:<id>". Operations on the same record
+// have to reach the server in order.
+export const getRecordKeys = (operation: SyncOperation): string[] =>
+  operation.entity === "tasks"
+    ? getOperationTasks(operation).map((task) => `task:${task.id}`)
+    : [`${operation.entity}:${operation.data.id}`];
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  conflicts: number;
+}
+
+// A queued task update that was rejected because the task changed on the server
+export interface TaskConflict {
+  operationId: string;
+  // Latest version on this device, including any later queued edits
+  local: Task;
+  // Null when the task was deleted on another device
+  remote: Task | null;
+}
+
+export type ConflictField = "title" | "description" | "status" | "tags";
+
+export const CONFLICT_FIELDS: ConflictField[] = ["title", "description", "status", "tags"];
+
+const sameTags = (a: TaskTag[], b: TaskTag[]) =>
+  a.length === b.length && a.every((tag) => b.some((other) => other.id === tag.id));
+
+// Fields the user has to choose between
+export const getConflictingFields = ({ local, remote }: { local: Task; remote: Task }): ConflictField[] =>
+  CONFLICT_FIELDS.filter((field) =>
+    field === "tags"
+      ? !sameTags(local.tags, remote.tags)
+      : (local[field] || "") !== (remote[field] || "")
+  );
+
+// Build the merged task from the chosen side of each field. Everything else comes
+// from this device, except that taking the other device's status also takes the
+// progress and completion date that belong with it.
+export const mergeConflict = (
+  { local, remote }: { local: Task; remote: Task },
+  choices: Partial<Record<ConflictField, "local" | "remote">>
+): Task => {
+  const merged: Task = { ...local };
+  for (const field of CONFLICT_FIELDS) {
+    if (choices[field] !== "remote") continue;
+    if (field === "tags") merged.tags = remote.tags;
+    else if (field === "status") {
+      merged.status = remote.status;
+      merged.progress = remote.progress;
+      merged.completedAt = remote.completedAt;
+      merged.subtasks = remote.subtasks;
+    } else merged[field] = remote[field];
+  }
+  return merged;
+};
+
+// Send one queued operation to Supabase. Every call is safe to repeat: creates
+// carry client-generated ids and are written as upserts, and deletes of rows
+// that are already gone succeed.
+export const replayOperation = async (
+  operation: SyncOperation,
+  userId: string
+): Promise<SyncRecord | Task[] | void> => {
+  const { entity, type, data } = operation;
+
+  if (entity === "task") {
+    if (type === "delete") return taskService.deleteTask(data.id, userId);
+    if (type === "create") return taskService.createTask(data as Task);
+    // Updates are checked against the version they were made on; a mismatch
+    // surfaces as a TaskConflictError for the user to merge
+    return taskService.updateTask(data as Task, {
+      expectedUpdatedAt: operation.baseVersion ? new Date(operation.baseVersion) : undefined,
+    });
+  }
+
+  if (entity === "tasks") {
+    const { tasks, baseVersions } = data as TaskBatch;
+    if (type === "delete") return taskService.deleteTasks(tasks.map((task) => task.id), userId);
+    // Checked per task, so one that changed elsewhere fails the batch with a conflict
+    return taskService.upsertTasks(tasks, baseVersions);
+  }
+
+  if (entity === "tag") {
+    if (type === "delete") return taskService.deleteTag(data.id, userId);
+    return type === "create"
+      ? taskService.createTag(data as TaskTag, userId)
+      : taskService.updateTag(data as TaskTag, userId);
+  }
+
+  if (entity === "view") {
+    if (type === "delete") return taskService.deleteSavedView(data.id, userId);
+    return taskService.createSavedView(data as SavedView, userId);
+  }
+
+  if (type === "delete") return taskService.deleteProject(data.id, userId);
+  return type === "create"
+    ? taskService.createProject(data as TaskProject, userId)
+    : taskService.updateProject(data as TaskProject, userId);
+};
+
+// Lay the changes still waiting in the outbox over freshly fetched records, so
+// a refetch never hides edits that haven't reached the server yet
+export const applyPendingOperations = <T extends SyncRecord>(
+  records: T[],
+  entity: SyncEntity,
+  queue: SyncOperation[]
+): T[] => {
+  // Batches count as one operation per task
+  const operations = queue.flatMap((op): SyncOperation[] =>
+    op.entity === "tasks" ? getOperationTasks(op).map((task) => ({ ...op, entity: "task", data: task })) : [op]
+  );
+
+  return operations
+    .filter((op) => op.entity === entity)
+    .reduce((acc, op) => {
+      const record = op.data as T;
+      if (op.type === "delete") {
+        return acc.filter((r) => r.id !== record.id);
+      }
+      return acc.some((r) => r.id === record.id)
+        ? acc.map((r) => (r.id === record.id ? record : r))
+        : [...acc, record];
+    }, records);
+};
@@ -0,0 +1,241 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SavedView, Task, TaskProject, TaskTag } from "@/types/task";
+
+// Stands in for Supabase behind taskService. Rows are kept the way the database
+// keeps them: tasks link to tags and blockers by id, so renaming or deleting a
+// tag shows on every task, and deletes cascade like the foreign keys do.
+const server = vi.hoisted(() => {
+  type TaskRow = Omit<Task, "tags" | "blockedBy"> & { tagIds: string[] };
+
+  let tasks: TaskRow[] = [];
+  let dependencies: { taskId: string; blockedById: string }[] = [];
+  let tags: TaskTag[] = [];
+  let projects: TaskProject[] = [];
+  let views: SavedView[] = [];
+  let nextId = 0;
+
+  const toTask = ({ tagIds, ...row }: TaskRow): Task => ({
+    ...row,
+    tags: tagIds.map((id) => tags.find((tag) => tag.id === id)).filter(Boolean),
+    blockedBy: dependencies.filter((d) => d.taskId === row.id).map((d) => d.blockedById),
+  });
+
+  const upsert = ({ tags: taskTags, blockedBy, ...task }: Task): Task => {
+    tasks = [...tasks.filter((t) => t.id !== task.id), { ...task, tagIds: taskTags.map((tag) => tag.id) }];
+    dependencies = [
+      ...dependencies.filter((d) => d.taskId !== task.id),
+      ...(blockedBy || []).map((blockedById) => ({ taskId: task.id, blockedById })),
+    ];
+    return toTask(tasks.find((t) => t.id === task.id));
+  };
+
+  const removeTasks = async (ids: string[]) => {
+    tasks = tasks.filter((t) => !ids.includes(t.id));
+    dependencies = dependencies.filter((d) => !ids.includes(d.taskId) && !ids.includes(d.blockedById));
+  };
+
+  const saveTag = async (tag: Omit<TaskTag, "id"> & { id?: string }): Promise<TaskTag> => {
+    const saved = { ...tag, id: tag.id ?? `server-tag-${++nextId}` };
+    tags = [...tags.filter((t) => t.id !== saved.id), saved];
+    return saved;
+  };
+
+  const saveProject = async (project: Omit<TaskProject, "id"> & { id?: string }): Promise<TaskProject> => {
+    const saved = { ...project, id: project.id ?? `server-project-${++nextId}` };
+    projects = [...projects.filter((p) => p.id !== saved.id), saved];
+    return saved;
+  };
+
+  return {
+    reset: () => {
+      tasks = [];
+      dependencies = [];
+      tags = [];
+      projects = [];
+      views = [];
+    },
+    fetchTasks: async () => tasks.map(toTask),
+    fetchTags: async () => tags,
+    fetchProjects: async () => projects,
+    fetchSavedViews: async () => views,
+    searchTasks: async () => [],
+    createTask: async (task: Task) => upsert(task),
+    updateTask: async (task: Task) => upsert(task),
+    upsertTasks: async (batch: Task[]) => batch.map(upsert),
+    deleteTask: (taskId: string) => removeTasks([taskId]),
+    deleteTasks: (taskIds: string[]) => removeTasks(taskIds),
+    createTag: saveTag,
+    updateTag: saveTag,
+    deleteTag: async (tagId: string) => {
+      tags = tags.filter((t) => t.id !== tagId);
+      tasks = tasks.map((t) => ({ ...t, tagIds: t.tagIds.filter((id) => id !== tagId) }));
+    },
+    createProject: saveProject,
+    updateProject: saveProject,
+    deleteProject: async (projectId: string) => {
+      projects = projects.filter((p) => p.id !== projectId);
+      tasks = tasks.map((t) => (t.projectId === projectId ? { ...t, projectId: null } : t));
+    },
+    createSavedView: async (view: SavedView) => {
+      views = [...views, view];
+      return view;
+    },
+    deleteSavedView: async (viewId: string) => {
+      views = views.filter((v) => v.id !== viewId);
+    },
+  };
+});
+
+vi.mock("@/services/taskService", () => server);
+
+import { TaskRepository, createLocalRepository, createSupabaseRepository } from "./taskRepository";
+import { SyncOperation, replayOperation } from "./syncService";
+import { createMemoryStorage } from "@/lib/offlineDb";
+
+const USER_ID = "user-1";
+
+// The outbox is skipped: every change is replayed against the server right away
+const createSyncedRepository = () => {
+  let sequence = 0;
+  return createSupabaseRepository({
+    userId: USER_ID,
+    storage: createMemoryStorage(),
+    getBaseVersion: () => undefined,
+    enqueue: async (type, entity, data, baseVersion) => {
+      const operation: SyncOperation = {
+        id: `op-${++sequence}`,
+        queue: USER_ID,
+        sequence,
+        type,
+        entity,
+        data,
+        baseVersion,
+        timestamp: Date.now(),
+        attempts: 0,
+        nextAttemptAt: 0,
+      };
+      await replayOperation(operation, USER_ID);
+    },
+  });
+};
+
+const work: TaskTag = { id: "tag-work", name: "Work", color: "#5C95FF" };
+const home: TaskTag = { id: "tag-home", name: "Home", color: "#6ECB63" };
+const project: TaskProject = { id: "project-1", name: "Launch" };
+
+const makeTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: `Task ${id}`,
+  status: "pending",
+  priority: "medium",
+  tags: [],
+  blockedBy: [],
+  createdAt: new Date("2025-06-01T09:00:00Z"),
+  updatedAt: new Date("2025-06-01T09:00:00Z"),
+  ...overrides,
+});
+
+const findTask = async (repository: TaskRepository, id: string) =>
+  (await repository.loadTasks()).find((task) => task.id === id);
+
+describe.each([
+  ["local", () => createLocalRepository(createMemoryStorage())],
+  ["Supabase", createSyncedRepository],
+])("%s repository", (_name, createRepository) => {
+  let repository: TaskRepository;
+
+  beforeEach(async () => {
+    server.reset();
+    repository = createRepository();
+    await repository.createTag(work);
+    await repository.createTag(home);
+    await repository.createProject(project);
+  });
+
+  it("creates, updates and deletes a task", async () => {
+    await repository.createTask(makeTask("a", { tags: [work], projectId: project.id }));
+    expect(await findTask(repository, "a")).toMatchObject({ title: "Task a", tags: [work], projectId: project.id });
+
+    await repository.updateTask(makeTask("a", { title: "Renamed", status: "completed", tags: [home] }));
+    expect(await findTask(repository, "a")).toMatchObject({ title: "Renamed", status: "completed", tags: [home] });
+
+    await repository.deleteTask(makeTask("a"));
+    expect(await repository.loadTasks()).toEqual([]);
+  });
+
+  it("detaches dependents of a deleted task", async () => {
+    await repository.createTask(makeTask("a"));
+    await repository.createTask(makeTask("b"));
+    await repository.createTask(makeTask("c", { blockedBy: ["a", "b"] }));
+
+    await repository.deleteTask(makeTask("a"));
+
+    expect((await repository.loadTasks()).map((task) => task.id).sort()).toEqual(["b", "c"]);
+    expect((await findTask(repository, "c")).blockedBy).toEqual(["b"]);
+  });
+
+  it("saves and deletes tasks in batches, detaching dependents", async () => {
+    await repository.saveTasks([makeTask("a"), makeTask("b"), makeTask("c", { blockedBy: ["a", "b"] })]);
+    await repository.saveTasks([makeTask("a", { priority: "high" }), makeTask("b", { priority: "high" })]);
+    expect((await repository.loadTasks()).filter((task) => task.priority === "high")).toHaveLength(2);
+
+    await repository.deleteTasks([makeTask("a"), makeTask("b")]);
+
+    const tasks = await repository.loadTasks();
+    expect(tasks.map((task) => task.id)).toEqual(["c"]);
+    expect(tasks[0].blockedBy).toEqual([]);
+  });
+
+  it("rewrites tasks when a tag is updated", async () => {
+    await repository.createTask(makeTask("a", { tags: [work, home] }));
+    await repository.createTask(makeTask("b", { tags: [home] }));
+
+    const renamed = { ...work, name: "Office", color: "#FF884B" };
+    await repository.updateTag(renamed);
+
+    expect((await findTask(repository, "a")).tags).toEqual([renamed, home]);
+    expect((await findTask(repository, "b")).tags).toEqual([home]);
+    expect((await repository.load()).tags).toContainEqual(renamed);
+  });
+
+  it("takes a deleted tag off every task", async () => {
+    await repository.createTask(makeTask("a", { tags: [work, home] }));
+    await repository.createTask(makeTask("b", { tags: [work] }));
+
+    await repository.deleteTag(work);
+
+    expect((await findTask(repository, "a")).tags).toEqual([home]);
+    expect((await findTask(repository, "b")).tags).toEqual([]);
+    expect((await repository.load()).tags).not.toContainEqual(work);
+  });
+
+  it("keeps the tasks of a deleted project and detaches them", async () => {
+    await repository.createTask(makeTask("a", { projectId: project.id }));
+    await repository.createTask(makeTask("b"));
+
+    await repository.deleteProject(project);
+
+    const data = await repository.load();
+    expect(data.projects).toEqual([]);
+    expect(data.tasks.map((task) => [task.id, task.projectId ?? null])).toEqual([
+      ["a", null],
+      ["b", null],
+    ]);
+  });
+});
+
+describe("Supabase repository batches", () => {
+  it("bases each task on its latest known version unless another one is given", async () => {
+    const enqueue = vi.fn(async () => {});
+    const repository = createSupabaseRepository({
+      userId: USER_ID,
+      storage: createMemoryStorage(),
+      getBaseVersion: (taskId) => ({ a: 100, b: 200 })[taskId],
+      enqueue,
+    });
+
+    await repository.saveTasks([makeTask("a"), makeTask("b"), makeTask("new")], { b: 150 });
+
+    expect(enqueue).toHaveBeenCalledWith("update", "tasks", expect.objectContaining({ baseVersions: { a: 100, b: 150 } }));
+  });
+});
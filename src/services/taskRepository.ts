@@ -0,0 +1,227 @@
+import * as taskService from "@/services/taskService";
+import { SyncEntity, SyncRecord, TaskBatch } from "@/services/syncService";
+import { QueuedOperationType } from "@/hooks/use-offline-storage";
+import { readGuestData } from "@/lib/guestStorage";
+import {
+  CACHE_STORE,
+  GUEST_PROJECTS_STORE,
+  GUEST_TAGS_STORE,
+  GUEST_TASKS_STORE,
+  GUEST_VIEWS_STORE,
+  StorageAdapter,
+  offlineStorage,
+} from "@/lib/offlineDb";
+import { removeDependency } from "@/lib/dependencies";
+import { withUpdatedTag, withoutTag } from "@/lib/tags";
+import { SavedView, Task, TaskProject, TaskTag } from "@/types/task";
+import { v4 as uuidv4 } from "uuid";
+
+// Predefined tags
+export const DEFAULT_TAGS: TaskTag[] = [
+  { id: "work", name: "Work", color: "#5C95FF" },
+  { id: "personal", name: "Personal", color: "#6ECB63" },
+  { id: "urgent", name: "Urgent", color: "#FF884B" },
+  { id: "shopping", name: "Shopping", color: "#FFCB42" },
+  { id: "health", name: "Health", color: "#ea384c" },
+];
+
+export interface TaskData {
+  tasks: Task[];
+  tags: TaskTag[];
+  projects: TaskProject[];
+  views: SavedView[];
+}
+
+// Where tasks, tags and projects are kept. TaskContext applies every change to
+// its state first and then hands it to the repository, so records passed in
+// already carry their final ids and timestamps.
+export interface TaskRepository {
+  // Everything the user has, starting them off with the default tags.
+  // fromCache is set when only the copy kept on this device could be read.
+  load: () => Promise<TaskData & { fromCache?: boolean }>;
+  loadTasks: () => Promise<Task[]>;
+  // Ids of tasks a backend-side search finds for the text; empty when the
+  // backend has no search of its own
+  searchTaskIds: (text: string) => Promise<string[]>;
+  // Keep a copy of the data for offline use
+  saveSnapshot: (data: TaskData) => Promise<void>;
+  createTask: (task: Task) => Promise<void>;
+  updateTask: (task: Task) => Promise<void>;
+  // Also removes the task from the dependencies of other tasks
+  deleteTask: (task: Task) => Promise<void>;
+  // Create or update several tasks at once, e.g. for a bulk edit. baseVersions
+  // replaces the versions edits are normally based on, e.g. for undo.
+  saveTasks: (tasks: Task[], baseVersions?: Record<string, number>) => Promise<void>;
+  deleteTasks: (tasks: Task[]) => Promise<void>;
+  createTag: (tag: TaskTag) => Promise<void>;
+  updateTag: (tag: TaskTag) => Promise<void>;
+  // Also takes the tag off every task
+  deleteTag: (tag: TaskTag) => Promise<void>;
+  createProject: (project: TaskProject) => Promise<void>;
+  updateProject: (project: TaskProject) => Promise<void>;
+  // The project's tasks are kept and detached from it
+  deleteProject: (project: TaskProject) => Promise<void>;
+  createView: (view: SavedView) => Promise<void>;
+  deleteView: (view: SavedView) => Promise<void>;
+  // Store AI scores (and their rationales) by task id
+  saveScores: (scores: Record<string, number>, rationales: Record<string, string>) => Promise<void>;
+}
+
+const getSnapshotKey = (userId: string) => `snapshot:${userId}`;
+
+interface SupabaseRepositoryOptions {
+  userId: string;
+  // Adds a change to the outbox, which replays it through taskService
+  enqueue: (type: QueuedOperationType, entity: SyncEntity, data: SyncRecord, baseVersion?: number) => Promise<void>;
+  // Server version an edit of the task is based on
+  getBaseVersion: (taskId: string) => number | undefined;
+  storage?: StorageAdapter;
+}
+
+// Signed-in data in Supabase. Reads go straight to taskService; writes go
+// through the outbox so they survive being offline and are retried.
+export const createSupabaseRepository = ({
+  userId,
+  enqueue,
+  getBaseVersion,
+  storage = offlineStorage,
+}: SupabaseRepositoryOptions): TaskRepository => {
+  const fetchAll = async (): Promise<TaskData> => {
+    const tasks = await taskService.fetchTasks(userId);
+    let tags = await taskService.fetchTags(userId);
+
+    // If user has no tags yet, create default tags
+    if (tags.length === 0) {
+      await Promise.all(
+        DEFAULT_TAGS.map((tag) => taskService.createTag({ name: tag.name, color: tag.color }, userId))
+      );
+      tags = await taskService.fetchTags(userId);
+    }
+
+    const projects = await taskService.fetchProjects(userId);
+    const views = await taskService.fetchSavedViews(userId);
+    return { tasks, tags, projects, views };
+  };
+
+  const toBatch = (tasks: Task[], versions: Record<string, number> = {}): TaskBatch => {
+    const baseVersions: Record<string, number> = {};
+    for (const task of tasks) {
+      const version = versions[task.id] ?? getBaseVersion(task.id);
+      if (version !== undefined) baseVersions[task.id] = version;
+    }
+    return { id: uuidv4(), tasks, baseVersions };
+  };
+
+  return {
+    load: async () => {
+      try {
+        return await fetchAll();
+      } catch (error) {
+        // Fall back to the copy kept on this device
+        const snapshot = await storage.get<TaskData>(CACHE_STORE, getSnapshotKey(userId)).catch(() => undefined);
+        if (!snapshot) throw error;
+        console.error("Error fetching user data, using offline copy:", error);
+        // Snapshots from before saved views existed don't have them
+        return { ...snapshot, views: snapshot.views || [], fromCache: true };
+      }
+    },
+    loadTasks: () => taskService.fetchTasks(userId),
+    searchTaskIds: async (text) => (await taskService.searchTasks(text)).map((result) => result.id),
+    saveSnapshot: (data) => storage.put(CACHE_STORE, data, getSnapshotKey(userId)),
+    createTask: (task) => enqueue("create", "task", task),
+    updateTask: (task) => enqueue("update", "task", task, getBaseVersion(task.id)),
+    // The server drops dependencies on the task as part of the delete
+    deleteTask: (task) => enqueue("delete", "task", task),
+    // One outbox entry, and one request, for the whole batch
+    saveTasks: async (tasks, baseVersions) => {
+      if (tasks.length > 0) await enqueue("update", "tasks", toBatch(tasks, baseVersions));
+    },
+    deleteTasks: async (tasks) => {
+      if (tasks.length > 0) await enqueue("delete", "tasks", toBatch(tasks));
+    },
+    createTag: (tag) => enqueue("create", "tag", tag),
+    updateTag: (tag) => enqueue("update", "tag", tag),
+    deleteTag: (tag) => enqueue("delete", "tag", tag),
+    createProject: (project) => enqueue("create", "project", project),
+    updateProject: (project) => enqueue("update", "project", project),
+    // The server detaches the tasks as part of the delete
+    deleteProject: (project) => enqueue("delete", "project", project),
+    createView: (view) => enqueue("create", "view", view),
+    deleteView: (view) => enqueue("delete", "view", view),
+    // The ai-prioritize function stores the scores it computes
+    saveScores: async () => {},
+  };
+};
+
+// Tasks of `after` that differ from the same position in `before`
+const changedTasks = (before: Task[], after: Task[]) => after.filter((task, index) => task !== before[index]);
+
+// Guest mode data, kept on this device one record per row
+export const createLocalRepository = (storage: StorageAdapter = offlineStorage): TaskRepository => ({
+  load: async () => {
+    const data = await readGuestData(storage);
+    if (data.tags.length > 0) return data;
+
+    // Generate unique IDs for guest mode, and save the same tags so tasks
+    // reference ids that are stored
+    const tags = DEFAULT_TAGS.map((tag) => ({ ...tag, id: uuidv4() }));
+    await storage.bulkWrite(GUEST_TAGS_STORE, { put: tags });
+    return { ...data, tags };
+  },
+  loadTasks: async () => (await readGuestData(storage)).tasks,
+  // Guest tasks are all in memory, where the local search index covers them
+  searchTaskIds: async () => [],
+  // The data already lives on this device
+  saveSnapshot: async () => {},
+  createTask: (task) => storage.put(GUEST_TASKS_STORE, task),
+  updateTask: (task) => storage.put(GUEST_TASKS_STORE, task),
+  deleteTask: async (task) => {
+    const others = (await storage.getAll<Task>(GUEST_TASKS_STORE)).filter((t) => t.id !== task.id);
+    await storage.bulkWrite(GUEST_TASKS_STORE, {
+      put: changedTasks(others, removeDependency(others, task.id)),
+      delete: [task.id],
+    });
+  },
+  saveTasks: (tasks) => storage.bulkWrite(GUEST_TASKS_STORE, { put: tasks }),
+  deleteTasks: async (tasks) => {
+    const ids = tasks.map((t) => t.id);
+    const others = (await storage.getAll<Task>(GUEST_TASKS_STORE)).filter((t) => !ids.includes(t.id));
+    const detached = ids.reduce((remaining, id) => removeDependency(remaining, id), others);
+    await storage.bulkWrite(GUEST_TASKS_STORE, { put: changedTasks(others, detached), delete: ids });
+  },
+  createTag: (tag) => storage.put(GUEST_TAGS_STORE, tag),
+  // Guest tasks keep their own copy of each tag, so those are updated as well
+  updateTag: async (tag) => {
+    const tasks = await storage.getAll<Task>(GUEST_TASKS_STORE);
+    await storage.bulkWrite(GUEST_TASKS_STORE, {
+      put: changedTasks(tasks, tasks.map((t) => withUpdatedTag(t, tag))),
+    });
+    await storage.put(GUEST_TAGS_STORE, tag);
+  },
+  deleteTag: async (tag) => {
+    const tasks = await storage.getAll<Task>(GUEST_TASKS_STORE);
+    await storage.bulkWrite(GUEST_TASKS_STORE, {
+      put: changedTasks(tasks, tasks.map((t) => withoutTag(t, tag.id))),
+    });
+    await storage.delete(GUEST_TAGS_STORE, tag.id);
+  },
+  createProject: (project) => storage.put(GUEST_PROJECTS_STORE, project),
+  updateProject: (project) => storage.put(GUEST_PROJECTS_STORE, project),
+  deleteProject: async (project) => {
+    const tasks = await storage.getAll<Task>(GUEST_TASKS_STORE);
+    const detached = tasks.map((t) => (t.projectId === project.id ? { ...t, projectId: null } : t));
+    await storage.bulkWrite(GUEST_TASKS_STORE, { put: changedTasks(tasks, detached) });
+    await storage.delete(GUEST_PROJECTS_STORE, project.id);
+  },
+  createView: (view) => storage.put(GUEST_VIEWS_STORE, view),
+  deleteView: (view) => storage.delete(GUEST_VIEWS_STORE, view.id),
+  saveScores: async (scores, rationales) => {
+    const tasks = await storage.getAll<Task>(GUEST_TASKS_STORE);
+    const scored = tasks.map((t) =>
+      scores[t.id] !== undefined
+        ? { ...t, aiScore: scores[t.id], aiRationale: rationales[t.id] ?? t.aiRationale }
+        : t
+    );
+    await storage.bulkWrite(GUEST_TASKS_STORE, { put: changedTasks(tasks, scored) });
+  },
+});
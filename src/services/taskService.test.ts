@@ -0,0 +1,286 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseStandIn } from "@/test/supabaseStandIn";
+import type { Task, TaskTag } from "@/types/task";
+
+// taskService talks to a real Postgres with the migrations applied, through a
+// stand-in for the PostgREST calls the Supabase client makes
+vi.mock("@/integrations/supabase/client", async () => {
+  const { createSupabaseStandIn } = await import("@/test/supabaseStandIn");
+  return { supabase: await createSupabaseStandIn() };
+});
+
+import { supabase } from "@/integrations/supabase/client";
+import {
+  TaskConflictError,
+  createTag,
+  createTask,
+  deleteTask,
+  fetchTask,
+  fetchTasks,
+  groupTaskTags,
+  mapDbTaskToTask,
+  updateTask,
+  upsertTasks,
+} from "./taskService";
+
+const server = supabase as unknown as SupabaseStandIn;
+
+const work = { id: "tag-1", name: "Work", color: "#3b82f6", user_id: "user-1", created_at: "2025-06-01T09:00:00Z" };
+const home = { id: "tag-2", name: "Home", color: "#22c55e", user_id: "user-1", created_at: "2025-06-01T09:00:00Z" };
+
+// A tasks row as PostgREST returns it for TASK_SELECT
+const row = (overrides: Record<string, unknown> = {}) => ({
+  id: "task-1",
+  user_id: "user-1",
+  title: "Write report",
+  description: "Quarterly numbers",
+  status: "in-progress",
+  priority: "high",
+  progress: 40,
+  due_date: "2025-06-06T17:00:00+00:00",
+  recurrence: "FREQ=WEEKLY;INTERVAL=2",
+  subtasks: [{ id: "sub-1", title: "Collect data", completed: true }],
+  project_id: "project-1",
+  created_at: "2025-06-01T09:00:00+00:00",
+  updated_at: "2025-06-02T10:30:00+00:00",
+  completed_at: null,
+  ai_score: 72,
+  ai_rationale: "High priority, due in 2 days",
+  task_tags: [],
+  task_dependencies: [],
+  ...overrides,
+});
+
+describe("groupTaskTags", () => {
+  it("returns no tags for a task without links", () => {
+    expect(groupTaskTags([])).toEqual([]);
+    expect(groupTaskTags(null)).toEqual([]);
+  });
+
+  it("returns the tag of a single link without its row metadata", () => {
+    expect(groupTaskTags([{ tag_id: work.id, tags: work }])).toEqual([
+      { id: "tag-1", name: "Work", color: "#3b82f6" },
+    ]);
+  });
+
+  it("keeps every tag of a task with many links, in link order", () => {
+    expect(groupTaskTags([{ tag_id: home.id, tags: home }, { tag_id: work.id, tags: work }])).toEqual([
+      { id: "tag-2", name: "Home", color: "#22c55e" },
+      { id: "tag-1", name: "Work", color: "#3b82f6" },
+    ]);
+  });
+
+  it("skips dangling links whose tag is gone and duplicate links", () => {
+    const links = [
+      { tag_id: "tag-deleted", tags: null },
+      { tag_id: work.id, tags: work },
+      { tag_id: work.id, tags: work },
+    ];
+    expect(groupTaskTags(links)).toEqual([{ id: "tag-1", name: "Work", color: "#3b82f6" }]);
+  });
+});
+
+describe("mapDbTaskToTask", () => {
+  it("maps every column of a row", () => {
+    const task = mapDbTaskToTask({
+      ...row({ task_dependencies: [{ blocked_by_id: "task-2" }, { blocked_by_id: "task-3" }] }),
+      tags: groupTaskTags([{ tag_id: work.id, tags: work }]),
+    });
+
+    expect(task).toEqual({
+      id: "task-1",
+      title: "Write report",
+      description: "Quarterly numbers",
+      status: "in-progress",
+      priority: "high",
+      progress: 40,
+      dueDate: new Date("2025-06-06T17:00:00Z"),
+      recurrence: { frequency: "weekly", interval: 2 },
+      tags: [{ id: "tag-1", name: "Work", color: "#3b82f6" }],
+      subtasks: [{ id: "sub-1", title: "Collect data", completed: true }],
+      blockedBy: ["task-2", "task-3"],
+      projectId: "project-1",
+      createdAt: new Date("2025-06-01T09:00:00Z"),
+      updatedAt: new Date("2025-06-02T10:30:00Z"),
+      completedAt: undefined,
+      aiScore: 72,
+      aiRationale: "High priority, due in 2 days",
+    });
+  });
+
+  it("fills in defaults for empty columns", () => {
+    const task = mapDbTaskToTask(
+      row({ due_date: null, recurrence: null, subtasks: null, task_dependencies: null, updated_at: null })
+    );
+
+    expect(task).toMatchObject({
+      dueDate: undefined,
+      recurrence: null,
+      tags: [],
+      subtasks: [],
+      blockedBy: [],
+      updatedAt: new Date("2025-06-01T09:00:00Z"),
+    });
+  });
+});
+
+const USER_ID = "00000000-0000-4000-8000-000000000001";
+const OTHER_USER_ID = "00000000-0000-4000-8000-000000000002";
+
+const newTask = (title: string, tags: TaskTag[] = []): Task => ({
+  id: crypto.randomUUID(),
+  title,
+  status: "pending",
+  priority: "medium",
+  tags,
+  blockedBy: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+describe("against the database", () => {
+  let tagWork: TaskTag;
+  let tagHome: TaskTag;
+
+  beforeEach(async () => {
+    await server.reset();
+    server.signIn(USER_ID);
+    tagWork = await createTag({ name: "Work", color: "#3b82f6" }, USER_ID);
+    tagHome = await createTag({ name: "Home", color: "#22c55e" }, USER_ID);
+  });
+
+  describe("fetchTasks", () => {
+    it("returns tasks with zero, one and many tags", async () => {
+      const untagged = await createTask(newTask("Untagged"));
+      const oneTag = await createTask(newTask("One tag", [tagWork]));
+      const manyTags = await createTask(newTask("Many tags", [tagWork, tagHome]));
+
+      const tasks = await fetchTasks(USER_ID);
+
+      const tagNames = (id: string) => tasks.find((task) => task.id === id)?.tags.map((tag) => tag.name).sort();
+      expect(tasks).toHaveLength(3);
+      expect(tagNames(untagged.id)).toEqual([]);
+      expect(tagNames(oneTag.id)).toEqual(["Work"]);
+      expect(tagNames(manyTags.id)).toEqual(["Home", "Work"]);
+    });
+
+    it("round-trips the task's columns and dependencies", async () => {
+      const blocker = await createTask(newTask("Blocker"));
+      const task = await createTask({
+        ...newTask("Write report", [tagHome]),
+        description: "Quarterly numbers",
+        status: "in-progress",
+        priority: "high",
+        progress: 40,
+        dueDate: new Date("2025-06-06T17:00:00Z"),
+        recurrence: { frequency: "weekly", interval: 2 },
+        subtasks: [{ id: "sub-1", title: "Collect data", completed: true }],
+        blockedBy: [blocker.id],
+        aiScore: 72,
+        aiRationale: "High priority, due in 2 days",
+      });
+
+      expect(await fetchTask(task.id)).toMatchObject({
+        title: "Write report",
+        description: "Quarterly numbers",
+        status: "in-progress",
+        priority: "high",
+        progress: 40,
+        dueDate: new Date("2025-06-06T17:00:00Z"),
+        recurrence: { frequency: "weekly", interval: 2 },
+        tags: [tagHome],
+        subtasks: [{ id: "sub-1", title: "Collect data", completed: true }],
+        blockedBy: [blocker.id],
+        aiScore: 72,
+        aiRationale: "High priority, due in 2 days",
+      });
+    });
+
+    it("only returns the user's own tasks", async () => {
+      await createTask(newTask("Mine"));
+      server.signIn(OTHER_USER_ID);
+      await createTask(newTask("Someone else's"));
+
+      expect((await fetchTasks(USER_ID)).map((task) => task.title)).toEqual(["Mine"]);
+    });
+
+    it("throws the query error", async () => {
+      await expect(fetchTasks("not-a-user-id")).rejects.toMatchObject({ code: "22P02" });
+    });
+  });
+
+  describe("upsertTasks", () => {
+    it("writes tasks whose expected version still matches", async () => {
+      const a = await createTask(newTask("Task a", [tagWork]));
+      const b = await createTask(newTask("Task b"));
+
+      await upsertTasks(
+        [{ ...a, title: "Renamed a", tags: [tagHome] }, { ...b, title: "Renamed b" }],
+        { [a.id]: new Date(a.updatedAt).getTime() }
+      );
+
+      const tasks = await fetchTasks(USER_ID);
+      expect(tasks.find((task) => task.id === a.id)).toMatchObject({ title: "Renamed a", tags: [tagHome] });
+      expect(tasks.find((task) => task.id === b.id)).toMatchObject({ title: "Renamed b", tags: [] });
+    });
+
+    it("turns a version mismatch into a conflict on the task named by the server, writing nothing", async () => {
+      const a = await createTask(newTask("Task a"));
+      const b = await createTask(newTask("Task b"));
+      // Another device edits b
+      await server.db.query(
+        "update public.tasks set title = 'Changed elsewhere', updated_at = updated_at + interval '1 minute' where id = $1",
+        [b.id]
+      );
+
+      const error = await upsertTasks(
+        [{ ...a, title: "Renamed a" }, { ...b, title: "Renamed b" }],
+        { [a.id]: new Date(a.updatedAt).getTime(), [b.id]: new Date(b.updatedAt).getTime() }
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TaskConflictError);
+      expect(error.taskId).toBe(b.id);
+      expect(error.serverTask).toMatchObject({ id: b.id, title: "Changed elsewhere", updatedAt: new Date(new Date(b.updatedAt).getTime() + 60_000) });
+      expect((await fetchTask(a.id)).title).toBe("Task a");
+    });
+
+    it("reports a task deleted since its expected version as a conflict without a server task", async () => {
+      const a = await createTask(newTask("Task a"));
+      const b = await createTask(newTask("Task b"));
+      await deleteTask(b.id, USER_ID);
+
+      const error = await upsertTasks(
+        [{ ...a, title: "Renamed a" }, { ...b, title: "Renamed b" }],
+        { [a.id]: new Date(a.updatedAt).getTime(), [b.id]: new Date(b.updatedAt).getTime() }
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TaskConflictError);
+      expect(error.taskId).toBe(b.id);
+      expect(error.serverTask).toBeNull();
+      expect((await fetchTasks(USER_ID)).map((task) => task.title)).toEqual(["Task a"]);
+    });
+
+    it("puts back a deleted task written without an expected version", async () => {
+      const a = await createTask(newTask("Task a"));
+      await deleteTask(a.id, USER_ID);
+
+      await upsertTasks([a]);
+
+      expect((await fetchTask(a.id))?.title).toBe("Task a");
+    });
+  });
+
+  describe("updateTask", () => {
+    it("doesn't bring back a task deleted on another device", async () => {
+      const task = await createTask(newTask("Water plants"));
+      await deleteTask(task.id, USER_ID);
+
+      const error = await updateTask({ ...task, title: "Water all plants" }, { expectedUpdatedAt: new Date(task.updatedAt) })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(TaskConflictError);
+      expect(error.serverTask).toBeNull();
+      expect(await fetchTask(task.id)).toBeNull();
+    });
+  });
+});
@@ -1,191 +1,232 @@
 import { supabase } from "@/integrations/supabase/client";
-import { Task, TaskTag, TaskPriority, TaskStatus } from "@/types/task";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { formatRRule, parseRRule } from "@/lib/recurrence";
+import { SavedView, Task, TaskTag, TaskPriority, TaskProject, TaskStatus } from "@/types/task";
+
+// Thrown when a task was changed elsewhere since the version an update was based on
+export class TaskConflictError extends Error {
+  taskId: string;
+  serverTask: Task | null;
+
+  constructor(taskId: string, serverTask: Task | null) {
+    super(`Task ${taskId} was changed on another device`);
+    this.name = "TaskConflictError";
+    this.taskId = taskId;
+    this.serverTask = serverTask;
+  }
+}
+
+// SQLSTATE raised by upsert_task when the version check fails
+const TASK_CONFLICT_CODE = "PT409";
+
+// Tags are left-joined through task_tags, so tasks without tags are included and
+// PostgREST returns one row per task with the tag links nested inside it
+const TASK_SELECT = `
+  *,
+  task_tags (
+    tag_id,
+    tags (*)
+  ),
+  task_dependencies!task_dependencies_task_id_fkey (
+    blocked_by_id
+  )
+`;
 
 // Fetch tasks from Supabase
 export const fetchTasks = async (userId: string): Promise<Task[]> => {
   const { data, error } = await supabase
     .from("tasks")
-    .select(`
-      *,
-      task_tags!inner (
-        tag_id
-      ),
-      tags!inner (*)
-    `)
+    .select(TASK_SELECT)
     .eq("user_id", userId);
 
   if (error) {
     throw error;
   }
 
-  // Group tasks with tags
-  const tasks = data.reduce((acc: Record<string, any>, row: any) => {
-    const taskId = row.id;
-
-    if (!acc[taskId]) {
-      acc[taskId] = {
-        ...row,
-        tags: []
-      };
-    }
-
-    if (row.tags) {
-      const existingTagIds = acc[taskId].tags.map((tag: TaskTag) => tag.id);
-      if (!existingTagIds.includes(row.tags.id)) {
-        acc[taskId].tags.push({
-          id: row.tags.id,
-          name: row.tags.name,
-          color: row.tags.color
-        });
-      }
-    }
-
-    return acc;
-  }, {});
-
-  // Convert to Task array and map database fields to client model
-  return Object.values(tasks).map((task: any) => mapDbTaskToTask(task));
+  return data.map((row: any) => mapDbTaskToTask({ ...row, tags: groupTaskTags(row.task_tags) }));
 };
 
-// Create a new task in Supabase
-export const createTask = async (task: Omit<Task, "id" | "createdAt" | "updatedAt">, userId: string): Promise<Task> => {
-  // Convert dates to ISO string format if they exist
-  const dueDate = task.dueDate ? new Date(task.dueDate).toISOString() : null;
-  const completedAt = task.completedAt ? new Date(task.completedAt).toISOString() : null;
-  
-  // Insert the task
+// Fetch a single task, or null when it doesn't exist (anymore)
+export const fetchTask = async (taskId: string): Promise<Task | null> => {
   const { data, error } = await supabase
     .from("tasks")
-    .insert({
-      title: task.title,
-      description: task.description || "",
-      status: task.status,
-      priority: task.priority,
-      progress: task.progress || 0,
-      due_date: dueDate,
-      completed_at: completedAt,
-      user_id: userId,
-      ai_score: task.aiScore || 0
-    })
-    .select()
-    .single();
+    .select(TASK_SELECT)
+    .eq("id", taskId)
+    .maybeSingle();
 
   if (error) {
     throw error;
   }
 
-  // Add tags to the task
-  if (task.tags && task.tags.length > 0) {
-    const taskTags = task.tags.map(tag => ({
-      task_id: data.id,
-      tag_id: tag.id
-    }));
+  return data ? mapDbTaskToTask({ ...data, tags: groupTaskTags(data.task_tags) }) : null;
+};
+
+// Collapse the nested task_tags rows into the task's tag list, skipping links
+// whose tag has been deleted and any duplicate links
+export const groupTaskTags = (taskTags: { tag_id: string; tags: any }[] | null): TaskTag[] => {
+  const tags: TaskTag[] = [];
+
+  for (const link of taskTags || []) {
+    if (!link.tags || tags.some((tag) => tag.id === link.tags.id)) continue;
+    tags.push({
+      id: link.tags.id,
+      name: link.tags.name,
+      color: link.tags.color
+    });
+  }
+
+  return tags;
+};
 
-    const { error: tagError } = await supabase
-      .from("task_tags")
-      .insert(taskTags);
+// Write a task, its tags and its dependencies in one transaction through the
+// upsert_task database function. Inserts when the id is new (or missing) and
+// updates otherwise; with expectedUpdatedAt the update only goes through when the
+// stored row is still at that version.
+const upsertTask = async (
+  task: Omit<Task, "createdAt" | "updatedAt"> | (Omit<Task, "id" | "createdAt" | "updatedAt"> & { id?: string }),
+  expectedUpdatedAt?: Date
+): Promise<Task> => {
+  const { data, error } = await supabase.rpc("upsert_task", {
+    p_task: mapTaskToDbTask(task),
+    p_tag_ids: (task.tags || []).map(tag => tag.id),
+    p_blocked_by_ids: task.blockedBy || [],
+    p_expected_updated_at: expectedUpdatedAt ? new Date(expectedUpdatedAt).toISOString() : undefined
+  });
 
-    if (tagError) {
-      throw tagError;
+  if (error) {
+    if (error.code === TASK_CONFLICT_CODE && task.id) {
+      throw new TaskConflictError(task.id, await fetchTask(task.id));
     }
+    throw error;
   }
 
-  // Return the created task with tags
   return {
-    id: data.id,
-    title: data.title,
-    description: data.description,
-    status: data.status as TaskStatus,
-    priority: data.priority as TaskPriority,
-    progress: data.progress,
-    dueDate: data.due_date ? new Date(data.due_date) : undefined,
+    ...mapDbTaskToTask(data),
     tags: task.tags || [],
-    createdAt: new Date(data.created_at),
-    updatedAt: new Date(data.updated_at),
-    completedAt: data.completed_at ? new Date(data.completed_at) : undefined,
-    aiScore: data.ai_score
+    blockedBy: task.blockedBy || []
   };
 };
 
-// Update an existing task in Supabase
-export const updateTask = async (task: Task, userId: string): Promise<Task> => {
-  // Convert dates to ISO string format if they exist
-  const dueDate = task.dueDate ? new Date(task.dueDate).toISOString() : null;
-  const completedAt = task.completedAt ? new Date(task.completedAt).toISOString() : null;
-  
-  // Update the task
-  const { data, error } = await supabase
-    .from("tasks")
-    .update({
-      title: task.title,
-      description: task.description || "",
-      status: task.status,
-      priority: task.priority,
-      progress: task.progress || 0,
-      due_date: dueDate,
-      completed_at: completedAt,
-      updated_at: new Date().toISOString(),
-      ai_score: task.aiScore || 0
-    })
-    .eq("id", task.id)
-    .eq("user_id", userId)
-    .select()
-    .single();
+// The task columns as the upsert functions expect them
+const mapTaskToDbTask = (task: Omit<Task, "id" | "createdAt" | "updatedAt"> & { id?: string }): Json => ({
+  id: task.id || null,
+  title: task.title,
+  description: task.description || "",
+  status: task.status,
+  priority: task.priority,
+  progress: task.progress || 0,
+  subtasks: (task.subtasks || []) as unknown as Json,
+  due_date: task.dueDate ? new Date(task.dueDate).toISOString() : null,
+  recurrence: task.recurrence ? formatRRule(task.recurrence) : null,
+  completed_at: task.completedAt ? new Date(task.completedAt).toISOString() : null,
+  project_id: task.projectId || null,
+  ai_score: task.aiScore || 0,
+  ai_rationale: task.aiRationale || null
+});
+
+// Create a new task in Supabase. The id may be generated on the client; the
+// database function always writes the task for the signed-in user.
+export const createTask = async (task: Omit<Task, "id" | "createdAt" | "updatedAt"> & { id?: string }): Promise<Task> => {
+  return upsertTask(task);
+};
 
-  if (error) {
-    throw error;
-  }
+// Update an existing task in Supabase. Pass the updatedAt the edit was based on
+// to get a TaskConflictError instead of overwriting someone else's change.
+export const updateTask = async (task: Task, options: { expectedUpdatedAt?: Date } = {}): Promise<Task> => {
+  return upsertTask(task, options.expectedUpdatedAt);
+};
 
-  // Remove existing tag associations
-  const { error: removeTagError } = await supabase
+// Delete a task from Supabase
+export const deleteTask = async (taskId: string, userId: string): Promise<void> => {
+  // First delete task tags (due to foreign key constraints)
+  const { error: tagError } = await supabase
     .from("task_tags")
     .delete()
-    .eq("task_id", task.id);
+    .eq("task_id", taskId);
 
-  if (removeTagError) {
-    throw removeTagError;
+  if (tagError) {
+    throw tagError;
   }
 
-  // Add new tag associations
-  if (task.tags && task.tags.length > 0) {
-    const taskTags = task.tags.map(tag => ({
-      task_id: task.id,
-      tag_id: tag.id
-    }));
+  // Remove dependencies in both directions
+  const { error: dependencyError } = await supabase
+    .from("task_dependencies")
+    .delete()
+    .or(`task_id.eq.${taskId},blocked_by_id.eq.${taskId}`);
+
+  if (dependencyError) {
+    throw dependencyError;
+  }
+
+  // Then delete the task
+  const { error } = await supabase
+    .from("tasks")
+    .delete()
+    .eq("id", taskId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+};
 
-    const { error: tagError } = await supabase
-      .from("task_tags")
-      .insert(taskTags);
+// Write several tasks (new or existing) in one request and one transaction
+// through the upsert_tasks database function. Tasks with an expected version
+// (updated_at in ms, by id) are checked like in updateTask; if any of them
+// changed, nothing is written and a TaskConflictError names that task.
+export const upsertTasks = async (tasks: Task[], expectedVersions: Record<string, number> = {}): Promise<Task[]> => {
+  if (tasks.length === 0) return [];
+
+  const { data, error } = await supabase.rpc("upsert_tasks", {
+    p_tasks: tasks.map((task) => ({
+      task: mapTaskToDbTask(task),
+      tag_ids: task.tags.map((tag) => tag.id),
+      blocked_by_ids: task.blockedBy || [],
+      expected_updated_at: expectedVersions[task.id] ? new Date(expectedVersions[task.id]).toISOString() : null
+    }))
+  });
 
-    if (tagError) {
-      throw tagError;
+  if (error) {
+    // upsert_tasks puts the id of the conflicting task in the error detail
+    if (error.code === TASK_CONFLICT_CODE && error.details) {
+      throw new TaskConflictError(error.details, await fetchTask(error.details));
     }
+    throw error;
   }
 
-  // Return the updated task with tags
-  return {
-    ...task,
-    updatedAt: new Date(data.updated_at)
-  };
+  return data.map((row) => {
+    const task = tasks.find((t) => t.id === row.id);
+    return { ...mapDbTaskToTask(row), tags: task?.tags || [], blockedBy: task?.blockedBy || [] };
+  });
 };
 
-// Delete a task from Supabase
-export const deleteTask = async (taskId: string, userId: string): Promise<void> => {
-  // First delete task tags (due to foreign key constraints)
+// Delete several tasks with their tag links and dependencies
+export const deleteTasks = async (taskIds: string[], userId: string): Promise<void> => {
+  if (taskIds.length === 0) return;
+  const idList = `(${taskIds.join(",")})`;
+
   const { error: tagError } = await supabase
     .from("task_tags")
     .delete()
-    .eq("task_id", taskId);
+    .in("task_id", taskIds);
 
   if (tagError) {
     throw tagError;
   }
 
-  // Then delete the task
+  const { error: dependencyError } = await supabase
+    .from("task_dependencies")
+    .delete()
+    .or(`task_id.in.${idList},blocked_by_id.in.${idList}`);
+
+  if (dependencyError) {
+    throw dependencyError;
+  }
+
   const { error } = await supabase
     .from("tasks")
     .delete()
-    .eq("id", taskId)
+    .in("id", taskIds)
     .eq("user_id", userId);
 
   if (error) {
@@ -193,6 +234,20 @@ export const deleteTask = async (taskId: string, userId: string): Promise<void>
   }
 };
 
+// Full-text search on the server (with stemming), best match first
+export const searchTasks = async (query: string, limit = 50): Promise<{ id: string; rank: number }[]> => {
+  const { data, error } = await supabase.rpc("search_tasks", {
+    p_query: query,
+    p_limit: limit
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+};
+
 // Fetch tags from Supabase
 export const fetchTags = async (userId: string): Promise<TaskTag[]> => {
   const { data, error } = await supabase
@@ -211,11 +266,12 @@ export const fetchTags = async (userId: string): Promise<TaskTag[]> => {
   }));
 };
 
-// Create a new tag in Supabase
-export const createTag = async (tag: Omit<TaskTag, "id">, userId: string): Promise<TaskTag> => {
+// Create a new tag in Supabase. A client-generated id makes retries idempotent.
+export const createTag = async (tag: Omit<TaskTag, "id"> & { id?: string }, userId: string): Promise<TaskTag> => {
   const { data, error } = await supabase
     .from("tags")
-    .insert({
+    .upsert({
+      id: tag.id,
       name: tag.name,
       color: tag.color,
       user_id: userId
@@ -234,8 +290,189 @@ export const createTag = async (tag: Omit<TaskTag, "id">, userId: string): Promi
   };
 };
 
+// Rename or recolor a tag. Tasks reference tags by id, so they pick the change up.
+export const updateTag = async (tag: TaskTag, userId: string): Promise<TaskTag> => {
+  const { data, error } = await supabase
+    .from("tags")
+    .update({
+      name: tag.name,
+      color: tag.color
+    })
+    .eq("id", tag.id)
+    .eq("user_id", userId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    color: data.color
+  };
+};
+
+// Delete a tag from Supabase, removing it from every task first
+export const deleteTag = async (tagId: string, userId: string): Promise<void> => {
+  const { error: linkError } = await supabase
+    .from("task_tags")
+    .delete()
+    .eq("tag_id", tagId);
+
+  if (linkError) {
+    throw linkError;
+  }
+
+  const { error } = await supabase
+    .from("tags")
+    .delete()
+    .eq("id", tagId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Fetch saved views from Supabase
+export const fetchSavedViews = async (userId: string): Promise<SavedView[]> => {
+  const { data, error } = await supabase
+    .from("saved_views")
+    .select("id, name, query")
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
+
+// Create (or overwrite) a saved view. A client-generated id makes retries idempotent.
+export const createSavedView = async (view: SavedView, userId: string): Promise<SavedView> => {
+  const { data, error } = await supabase
+    .from("saved_views")
+    .upsert({
+      id: view.id,
+      name: view.name,
+      query: view.query,
+      user_id: userId
+    })
+    .select("id, name, query")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteSavedView = async (viewId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("saved_views")
+    .delete()
+    .eq("id", viewId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Fetch projects from Supabase
+export const fetchProjects = async (userId: string): Promise<TaskProject[]> => {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data.map(mapDbProjectToProject);
+};
+
+// Create a new project in Supabase. A client-generated id makes retries idempotent.
+export const createProject = async (project: Omit<TaskProject, "id"> & { id?: string }, userId: string): Promise<TaskProject> => {
+  const { data, error } = await supabase
+    .from("projects")
+    .upsert({
+      id: project.id,
+      name: project.name,
+      description: project.description || null,
+      user_id: userId
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return mapDbProjectToProject(data);
+};
+
+// Update an existing project in Supabase
+export const updateProject = async (project: TaskProject, userId: string): Promise<TaskProject> => {
+  const { data, error } = await supabase
+    .from("projects")
+    .update({
+      name: project.name,
+      description: project.description || null,
+      updated_at: new Date().toISOString()
+    })
+    .eq("id", project.id)
+    .eq("user_id", userId)
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return mapDbProjectToProject(data);
+};
+
+// Delete a project from Supabase (its tasks are detached, not deleted)
+export const deleteProject = async (projectId: string, userId: string): Promise<void> => {
+  const { error: taskError } = await supabase
+    .from("tasks")
+    .update({ project_id: null })
+    .eq("project_id", projectId)
+    .eq("user_id", userId);
+
+  if (taskError) {
+    throw taskError;
+  }
+
+  const { error } = await supabase
+    .from("projects")
+    .delete()
+    .eq("id", projectId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Helper function to map database project to client project model
+const mapDbProjectToProject = (dbProject: { id: string; name: string; description: string | null }): TaskProject => {
+  return {
+    id: dbProject.id,
+    name: dbProject.name,
+    description: dbProject.description
+  };
+};
+
 // Helper function to map database task to client task model
-const mapDbTaskToTask = (dbTask: any): Task => {
+export const mapDbTaskToTask = (dbTask: any): Task => {
   return {
     id: dbTask.id,
     title: dbTask.title,
@@ -244,100 +481,121 @@ const mapDbTaskToTask = (dbTask: any): Task => {
     priority: dbTask.priority as TaskPriority,
     progress: dbTask.progress,
     dueDate: dbTask.due_date ? new Date(dbTask.due_date) : undefined,
+    recurrence: parseRRule(dbTask.recurrence),
     tags: dbTask.tags || [],
+    subtasks: dbTask.subtasks || [],
+    blockedBy: (dbTask.task_dependencies || []).map((d: { blocked_by_id: string }) => d.blocked_by_id),
+    projectId: dbTask.project_id,
     createdAt: new Date(dbTask.created_at),
-    updatedAt: new Date(dbTask.updated_at),
+    updatedAt: new Date(dbTask.updated_at || dbTask.created_at),
     completedAt: dbTask.completed_at ? new Date(dbTask.completed_at) : undefined,
-    aiScore: dbTask.ai_score
+    aiScore: dbTask.ai_score,
+    aiRationale: dbTask.ai_rationale
   };
 };
 
-// Set up realtime subscription for task updates
-export const setupTasksSubscription = (userId: string, callback: () => void) => {
-  const subscription = supabase
-    .channel('tasks-channel')
-    .on('postgres_changes', 
-      { event: '*', schema: 'public', table: 'tasks', filter: `user_id=eq.${userId}` }, 
-      () => {
-        callback();
+// A single row change received over the realtime channel
+export type RealtimeChange =
+  | { table: "tasks"; event: "INSERT" | "UPDATE"; task: Task }
+  | { table: "tasks"; event: "DELETE"; id: string }
+  | { table: "tags"; event: "INSERT" | "UPDATE"; tag: TaskTag }
+  | { table: "tags"; event: "DELETE"; id: string }
+  | { table: "task_tags"; event: "INSERT" | "DELETE"; taskId: string; tagId: string }
+  | { table: "task_dependencies"; event: "INSERT" | "DELETE"; taskId: string; blockedById: string };
+
+// Set up one realtime subscription for the user's tasks, tags and the links
+// between them. Task rows arrive without their tags and dependencies; those
+// come as separate task_tags / task_dependencies changes. onResubscribe fires
+// when the channel reconnects, since changes made in between were missed.
+export const setupTasksSubscription = (
+  userId: string,
+  onChange: (change: RealtimeChange) => void,
+  onResubscribe?: () => void
+) => {
+  let subscribed = false;
+
+  const channel = supabase
+    .channel(`kairo-changes-${userId}`)
+    .on('postgres_changes',
+      { event: '*', schema: 'public', table: 'tasks', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          onChange({ table: "tasks", event: "DELETE", id: (payload.old as Tables<"tasks">).id });
+        } else {
+          onChange({ table: "tasks", event: payload.eventType, task: mapDbTaskToTask(payload.new) });
+        }
+      }
+    )
+    .on('postgres_changes',
+      { event: '*', schema: 'public', table: 'tags', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (payload.eventType === 'DELETE') {
+          onChange({ table: "tags", event: "DELETE", id: (payload.old as Tables<"tags">).id });
+        } else {
+          const tag = payload.new as Tables<"tags">;
+          onChange({ table: "tags", event: payload.eventType, tag: { id: tag.id, name: tag.name, color: tag.color } });
+        }
+      }
+    )
+    // Link tables have no user_id; row level security limits them to the user's tasks
+    .on('postgres_changes',
+      { event: '*', schema: 'public', table: 'task_tags' },
+      (payload) => {
+        if (payload.eventType === 'UPDATE') return;
+        const link = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Tables<"task_tags">;
+        onChange({ table: "task_tags", event: payload.eventType, taskId: link.task_id, tagId: link.tag_id });
+      }
+    )
+    .on('postgres_changes',
+      { event: '*', schema: 'public', table: 'task_dependencies' },
+      (payload) => {
+        if (payload.eventType === 'UPDATE') return;
+        const link = (payload.eventType === 'DELETE' ? payload.old : payload.new) as Tables<"task_dependencies">;
+        onChange({ table: "task_dependencies", event: payload.eventType, taskId: link.task_id, blockedById: link.blocked_by_id });
       }
     )
-    .subscribe();
+    .subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+      if (subscribed) {
+        onResubscribe?.();
+      }
+      subscribed = true;
+    });
 
   return () => {
-    subscription.unsubscribe();
+    supabase.removeChannel(channel);
   };
 };
 
-// Calculate AI task priority score
-export const calculateAiScore = (task: Omit<Task, "id" | "createdAt" | "updatedAt" | "aiScore"> | Task): number => {
-  let score = 0;
-  
-  // Priority based scoring
-  switch (task.priority) {
-    case 'high':
-      score += 30;
-      break;
-    case 'medium':
-      score += 20;
-      break;
-    case 'low':
-      score += 10;
-      break;
-    default:
-      score += 10;
-  }
-  
-  // Due date based scoring
-  if (task.dueDate) {
-    const dueDate = new Date(task.dueDate);
-    const today = new Date();
-    const diffDays = Math.round((dueDate.getTime() - today.getTime()) / (1000 * 3600 * 24));
-    
-    if (diffDays <= 1) {
-      score += 30;
-    } else if (diffDays <= 3) {
-      score += 20;
-    } else if (diffDays <= 7) {
-      score += 10;
-    }
-  }
-  
-  // Tag based scoring
-  if (task.tags.some(tag => tag.name.toLowerCase().includes('urgent'))) {
-    score += 25;
-  }
-  
-  // Description length based scoring
-  if (task.description && task.description.length > 100) {
-    score += 5;
-  }
-  
-  return score;
-};
-
-// Add this function to the existing file
-export const generateAiPriorities = async (tasks: Task[], userId: string | null) => {
-  try {
-    const response = await fetch('/api/ai-prioritize', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ 
-        tasks,
-        userId: userId || 'guest'
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Error: ${response.status}`);
+// Ask the ai-prioritize edge function to score the given tasks.
+// Returns maps of task id to AI score (1-100) and to a short rationale.
+// The function stores the scores for the signed-in user of the session token.
+export const generateAiPriorities = async (
+  tasks: Task[]
+): Promise<{ aiScores: Record<string, number>; aiRationales: Record<string, string> }> => {
+  const { data, error } = await supabase.functions.invoke("ai-prioritize", {
+    body: {
+      tasks: tasks.map(task => ({
+        id: task.id,
+        title: task.title,
+        description: task.description || "",
+        due_date: task.dueDate ? new Date(task.dueDate).toISOString() : null,
+        status: task.status,
+        priority: task.priority
+      }))
     }
+  });
 
-    const data = await response.json();
-    return data.aiScores;
-  } catch (error) {
-    console.error('Error getting AI priorities:', error);
+  if (error) {
     throw error;
   }
+
+  if (!data?.aiScores) {
+    throw new Error(data?.error || "The AI prioritization service returned no scores");
+  }
+
+  return {
+    aiScores: data.aiScores,
+    aiRationales: data.aiRationales || {}
+  };
 };
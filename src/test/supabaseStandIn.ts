@@ -0,0 +1,392 @@
+import { readFileSync, readdirSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { PGlite } from "@electric-sql/pglite";
+
+// Stands in for the Supabase client in tests: the database is an in-process
+// Postgres (PGlite) with every migration in supabase/migrations applied, and the
+// calls taskService makes are turned into SQL the way PostgREST does it,
+// including embedded resources, so joins and database functions really run.
+
+const MIGRATIONS_DIR = fileURLToPath(new URL("../../supabase/migrations", import.meta.url));
+
+// What Supabase provides before any migration runs: the auth schema, its roles
+// and the realtime publication, plus the tables that were created in the
+// dashboard (see src/integrations/supabase/types.ts) in their original shape.
+const BASE_SCHEMA = `
+  create role anon;
+  create role authenticated;
+  create schema auth;
+  create function auth.uid() returns uuid language sql stable as $$
+    select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+  create publication supabase_realtime;
+
+  create table public.profiles (
+    id uuid primary key,
+    email text not null,
+    full_name text,
+    avatar_url text,
+    created_at timestamptz default now(),
+    updated_at timestamptz default now()
+  );
+
+  create table public.projects (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null,
+    name text not null,
+    description text,
+    created_at timestamptz default now(),
+    updated_at timestamptz default now()
+  );
+
+  create table public.tags (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null,
+    name text not null,
+    color text not null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz default now()
+  );
+
+  create table public.tasks (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null,
+    title text not null,
+    description text,
+    status text not null default 'pending',
+    priority text not null default 'medium',
+    progress numeric default 0,
+    due_date timestamptz,
+    completed_at timestamptz,
+    ai_score numeric,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz default now()
+  );
+
+  create table public.task_tags (
+    task_id uuid not null references public.tasks (id) on delete cascade,
+    tag_id uuid not null references public.tags (id) on delete cascade,
+    primary key (task_id, tag_id)
+  );
+`;
+
+export interface PostgrestError {
+  code: string;
+  message: string;
+  details: string | null;
+  hint: string | null;
+}
+
+export interface PostgrestResponse {
+  data: unknown;
+  error: PostgrestError | null;
+}
+
+interface ForeignKey {
+  name: string;
+  table: string;
+  column: string;
+  refTable: string;
+  refColumn: string;
+}
+
+// One entry of a select string: a column, "*", or an embedded resource
+interface SelectNode {
+  name: string;
+  hint?: string;
+  inner: boolean;
+  children?: SelectNode[];
+}
+
+class StandInError extends Error {
+  code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const identifier = (name: string) => {
+  if (!/^[a-z_][a-z0-9_]*$/.test(name)) throw new StandInError("PGRST100", `Unsupported name "${name}"`);
+  return `"${name}"`;
+};
+
+// Parse a select string such as `*, task_tags!inner(tag_id, tags(*))`
+export const parseSelect = (select: string): SelectNode[] => {
+  const source = select.replace(/\s+/g, "");
+  let position = 0;
+
+  const parseList = (): SelectNode[] => {
+    const nodes: SelectNode[] = [];
+    while (position < source.length && source[position] !== ")") {
+      const [, name, modifiers = ""] = /^([a-z_*][a-z0-9_]*)((?:![a-z0-9_]+)*)/.exec(source.slice(position)) ?? [];
+      if (!name) throw new StandInError("PGRST100", `Could not parse select at "${source.slice(position)}"`);
+      position += name.length + modifiers.length;
+
+      const flags = modifiers.split("!").filter(Boolean);
+      const node: SelectNode = {
+        name,
+        hint: flags.find((flag) => flag !== "inner" && flag !== "left"),
+        inner: flags.includes("inner"),
+      };
+      if (source[position] === "(") {
+        position++;
+        node.children = parseList();
+        position++;
+      }
+      nodes.push(node);
+      if (source[position] === ",") position++;
+    }
+    return nodes;
+  };
+
+  return parseList();
+};
+
+// A condition on the row aliased t0; values go through bind as parameters
+type Filter = (bind: (value: unknown) => string) => string;
+
+const equals = (column: string, value: unknown): Filter => (bind) => `t0.${identifier(column)} = ${bind(value)}`;
+
+const isIn = (column: string, list: unknown[]): Filter => (bind) =>
+  `t0.${identifier(column)}::text = any(${bind(list.map(String))}::text[])`;
+
+// PostgREST's or filter, e.g. `task_id.eq.1,blocked_by_id.in.(1,2)`
+const parseOr = (conditions: string): Filter => {
+  const filters = (conditions.match(/[^,(]+(?:\([^)]*\))?/g) ?? []).map((condition) => {
+    const [, column, operator, value] = /^([a-z_]+)\.(eq|in)\.(.*)$/.exec(condition) ?? [];
+    if (!column) throw new StandInError("PGRST100", `Unsupported filter "${condition}"`);
+    return operator === "eq" ? equals(column, value) : isIn(column, value.replace(/^\(|\)$/g, "").split(","));
+  });
+  return (bind) => `(${filters.map((filter) => filter(bind)).join(" or ")})`;
+};
+
+const toPostgrestError = (error: unknown): PostgrestError => {
+  const { code, message, detail, hint } = error as { code?: string; message?: string; detail?: string; hint?: string };
+  return { code: code ?? "", message: message ?? String(error), details: detail ?? null, hint: hint ?? null };
+};
+
+export const createSupabaseStandIn = async () => {
+  const db = new PGlite();
+  await db.exec(BASE_SCHEMA);
+  for (const file of readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith(".sql")).sort()) {
+    await db.exec(readFileSync(`${MIGRATIONS_DIR}/${file}`, "utf8"));
+  }
+
+  const { rows: foreignKeys } = await db.query<ForeignKey>(`
+    select con.conname as name, cl.relname as "table", a.attname as "column",
+           ref.relname as "refTable", ra.attname as "refColumn"
+    from pg_constraint con
+    join pg_class cl on cl.oid = con.conrelid
+    join pg_class ref on ref.oid = con.confrelid
+    join pg_attribute a on a.attrelid = con.conrelid and a.attnum = con.conkey[1]
+    join pg_attribute ra on ra.attrelid = con.confrelid and ra.attnum = con.confkey[1]
+    where con.contype = 'f' and con.connamespace = 'public'::regnamespace
+  `);
+
+  let userId: string | null = null;
+
+  // Requests run as the signed-in user, so auth.uid() works in functions
+  const run = async <T>(sql: string, params: unknown[] = []) => {
+    await db.query("select set_config('request.jwt.claim.sub', $1, false)", [userId ?? ""]);
+    return (await db.query<T>(sql, params)).rows;
+  };
+
+  // The relationship PostgREST would embed `child` through. Like PostgREST, a
+  // hint naming the foreign key is needed when there is more than one.
+  const findRelationship = (parent: string, child: string, hint?: string) => {
+    const candidates = foreignKeys.filter(
+      (fk) =>
+        ((fk.table === parent && fk.refTable === child) || (fk.table === child && fk.refTable === parent)) &&
+        (!hint || fk.name === hint)
+    );
+    if (candidates.length !== 1) {
+      throw new StandInError(
+        candidates.length === 0 ? "PGRST200" : "PGRST201",
+        `Could not find a single relationship between '${parent}' and '${child}'`
+      );
+    }
+    const [fk] = candidates;
+    // The parent holds the foreign key: one row (or null) is embedded
+    return fk.table === parent
+      ? { toOne: true, join: (p: string, c: string) => `${c}.${identifier(fk.refColumn)} = ${p}.${identifier(fk.column)}` }
+      : { toOne: false, join: (p: string, c: string) => `${c}.${identifier(fk.column)} = ${p}.${identifier(fk.refColumn)}` };
+  };
+
+  let aliasCount = 0;
+
+  // A jsonb expression for one row of `table` as the select nodes shape it, and
+  // the conditions !inner embeds put on that row
+  const selectExpression = (nodes: SelectNode[], table: string, alias: string) => {
+    const parts: string[] = [];
+    const conditions: string[] = [];
+
+    for (const node of nodes) {
+      if (!node.children) {
+        parts.push(node.name === "*" ? `to_jsonb(${alias}.*)` : `jsonb_build_object('${node.name}', ${alias}.${identifier(node.name)})`);
+        continue;
+      }
+
+      const relationship = findRelationship(table, node.name, node.hint);
+      const childAlias = `t${++aliasCount}`;
+      const child = selectExpression(node.children, node.name, childAlias);
+      const where = [relationship.join(alias, childAlias), ...child.conditions].join(" and ");
+      const from = `from public.${identifier(node.name)} ${childAlias} where ${where}`;
+
+      parts.push(
+        relationship.toOne
+          ? `jsonb_build_object('${node.name}', (select ${child.json} ${from}))`
+          : `jsonb_build_object('${node.name}', coalesce((select jsonb_agg(${child.json}) ${from}), '[]'::jsonb))`
+      );
+      if (node.inner) conditions.push(`exists (select 1 ${from})`);
+    }
+
+    return { json: parts.length > 0 ? parts.join(" || ") : "'{}'::jsonb", conditions };
+  };
+
+  const respond = async (request: () => Promise<unknown>): Promise<PostgrestResponse> => {
+    try {
+      return { data: await request(), error: null };
+    } catch (error) {
+      return { data: null, error: toPostgrestError(error) };
+    }
+  };
+
+  // supabase.from(table): select or upsert, filtered with eq
+  const from = (table: string) => {
+    let columns: string | null = null;
+    let action: "select" | "upsert" | "delete" = "select";
+    let values: Record<string, unknown> | null = null;
+    let cardinality: "many" | "single" | "maybeSingle" = "many";
+    const filters: Filter[] = [];
+
+    // The where clause for the filters, binding their values as parameters
+    const whereClause = (extraFilters: Filter[], conditions: string[] = []) => {
+      const params: unknown[] = [];
+      const bind = (value: unknown) => {
+        params.push(value);
+        return `$${params.length}`;
+      };
+      const where = [...[...filters, ...extraFilters].map((filter) => filter(bind)), ...conditions];
+      return { sql: where.length ? ` where ${where.join(" and ")}` : "", params };
+    };
+
+    const selectRows = async (extraFilters: Filter[] = []) => {
+      const { json, conditions } = selectExpression(parseSelect(columns ?? "*"), table, "t0");
+      const where = whereClause(extraFilters, conditions);
+      const rows = await run<{ row: unknown }>(
+        `select ${json} as row from public.${identifier(table)} t0${where.sql}`,
+        where.params
+      );
+      return rows.map(({ row }) => row);
+    };
+
+    const deleteRows = async () => {
+      const where = whereClause([]);
+      await run(`delete from public.${identifier(table)} t0${where.sql}`, where.params);
+      return [];
+    };
+
+    const upsertRow = async () => {
+      const entries = Object.entries(values).filter(([, value]) => value !== undefined);
+      const [{ id }] = await run<{ id: string }>(
+        `insert into public.${identifier(table)} (${entries.map(([column]) => identifier(column)).join(", ")})
+         values (${entries.map((_, index) => `$${index + 1}`).join(", ")})
+         on conflict (id) do update set ${entries.map(([column]) => `${identifier(column)} = excluded.${identifier(column)}`).join(", ")}
+         returning id`,
+        entries.map(([, value]) => value)
+      );
+      return columns === null ? [] : selectRows([equals("id", id)]);
+    };
+
+    const execute = () =>
+      respond(async () => {
+        const rows = action === "upsert" ? await upsertRow() : action === "delete" ? await deleteRows() : await selectRows();
+        if (cardinality === "many") return action !== "select" && columns === null ? null : rows;
+        if (rows.length > 1 || (rows.length === 0 && cardinality === "single")) {
+          throw new StandInError("PGRST116", `JSON object requested, ${rows.length} rows returned`);
+        }
+        return rows[0] ?? null;
+      });
+
+    const builder = {
+      select: (select = "*") => {
+        columns = select;
+        return builder;
+      },
+      upsert: (row: Record<string, unknown>) => {
+        action = "upsert";
+        values = row;
+        return builder;
+      },
+      delete: () => {
+        action = "delete";
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push(equals(column, value));
+        return builder;
+      },
+      in: (column: string, list: unknown[]) => {
+        filters.push(isIn(column, list));
+        return builder;
+      },
+      or: (conditions: string) => {
+        filters.push(parseOr(conditions));
+        return builder;
+      },
+      single: () => {
+        cardinality = "single";
+        return builder;
+      },
+      maybeSingle: () => {
+        cardinality = "maybeSingle";
+        return builder;
+      },
+      then: <T>(resolve: (response: PostgrestResponse) => T, reject?: (error: unknown) => T) =>
+        execute().then(resolve, reject),
+    };
+    return builder;
+  };
+
+  // supabase.rpc(name, args): arguments are typed from the function's signature,
+  // and a function returning one row gives an object rather than an array
+  const rpc = (name: string, args: Record<string, unknown> = {}) =>
+    respond(async () => {
+      const [signature] = await run<{ names: string[]; types: string[]; returnsSet: boolean }>(
+        `select proargnames as names, proargtypes::regtype[]::text[] as types, proretset as "returnsSet"
+         from pg_proc where proname = $1 and pronamespace = 'public'::regnamespace`,
+        [name]
+      );
+      if (!signature) throw new StandInError("PGRST202", `Could not find the function public.${name}`);
+
+      const given = signature.names
+        .map((argName, index) => ({ argName, type: signature.types[index] }))
+        .filter(({ argName }) => args[argName] !== undefined);
+      const record = given.map(({ argName, type }) => `${identifier(argName)} ${type}`).join(", ");
+      const call = given.map(({ argName }) => `${identifier(argName)} => a.${identifier(argName)}`).join(", ");
+      const source = given.length > 0 ? `json_to_record($1::json) as a(${record}) cross join lateral ` : "";
+
+      const rows = await run<{ row: unknown }>(
+        `select to_jsonb(r) as row from ${source}public.${identifier(name)}(${call}) r`,
+        given.length > 0 ? [JSON.stringify(args)] : []
+      );
+      const data = rows.map(({ row }) => row);
+      return signature.returnsSet ? data : data[0] ?? null;
+    });
+
+  return {
+    from,
+    rpc,
+    db,
+    signIn: (id: string | null) => {
+      userId = id;
+    },
+    // Empty every table between tests
+    reset: () =>
+      db.exec("truncate public.tasks, public.tags, public.projects, public.saved_views, public.profiles cascade"),
+  };
+};
+
+export type SupabaseStandIn = Awaited<ReturnType<typeof createSupabaseStandIn>>;
@@ -6,6 +6,35 @@ export type TaskTag = {
   color: string;
 };
 
+export type TaskProject = {
+  id: string;
+  name: string;
+  description?: string | null;
+};
+
+// A named filter query, written in the syntax of lib/taskQuery
+export type SavedView = {
+  id: string;
+  name: string;
+  query: string;
+};
+
+export type Subtask = {
+  id: string;
+  title: string;
+  completed: boolean;
+};
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday?: number[];
+  byMonthDay?: number;
+  until?: Date | string | null;
+};
+
 export type TaskPriority = "low" | "medium" | "high" | string;
 
 export interface Task {
@@ -16,9 +45,14 @@ export interface Task {
   priority: TaskPriority;
   progress?: number;
   dueDate?: Date | string | null;
+  recurrence?: RecurrenceRule | null;
   tags: TaskTag[];
+  subtasks?: Subtask[];
+  blockedBy?: string[];
+  projectId?: string | null;
   createdAt: Date | string;
   updatedAt: Date | string;
   completedAt?: Date | string | null;
   aiScore?: number | null;
+  aiRationale?: string | null;
 }
@@ -2,9 +2,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createProviderFromEnv, PrioritizationTask } from './providers.ts';
+import { AiResponseValidationError, parseAiPriorities } from './validation.ts';
 
-// Get the API key from environment variables
-const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
 const supabaseUrl = Deno.env.get('SUPABASE_URL');
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
 
@@ -21,9 +21,9 @@ serve(async (req) => {
 
   try {
     // Parse the request body
-    const { tasks, userId } = await req.json();
+    const { tasks } = await req.json();
     
-    if (!tasks || tasks.length === 0) {
+    if (!Array.isArray(tasks) || tasks.length === 0) {
       return new Response(
         JSON.stringify({ error: 'No tasks provided' }),
         { 
@@ -33,6 +33,16 @@ serve(async (req) => {
       );
     }
 
+    if (tasks.some(task => !task || typeof task.id !== 'string')) {
+      return new Response(
+        JSON.stringify({ error: 'Every task needs a string id' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     // Create a system prompt for the AI
     const systemPrompt = `
       You are an AI assistant that helps prioritize tasks based on their importance, urgency, and impact.
@@ -47,62 +57,54 @@ serve(async (req) => {
       3. Task status (incomplete tasks are more important than in-progress)
       4. Task priority as already set by the user
       
-      Return only a JSON object with task IDs as keys and AI scores as values.
-      Example: { "task-id-1": 85, "task-id-2": 45 }
+      For every task also give a short rationale (under 15 words) naming the factors
+      that mattered most, e.g. "due tomorrow, tagged Urgent".
+      
+      Return only a JSON object with task IDs as keys and objects with "score" and
+      "rationale" as values.
+      Example: { "task-id-1": { "score": 85, "rationale": "Due tomorrow, high priority" } }
     `;
 
     // Format tasks for the AI
-    const tasksFormatted = tasks.map(task => ({
+    const tasksFormatted: PrioritizationTask[] = tasks.map(task => ({
       id: task.id,
       title: task.title,
       description: task.description || '',
-      due_date: task.due_date,
+      due_date: task.due_date ?? null,
       status: task.status,
       priority: task.priority
     }));
 
-    // Call OpenAI API
-    const openAIResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openAIApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: JSON.stringify(tasksFormatted) }
-        ],
-        temperature: 0.2,
-      }),
-    });
-
-    if (!openAIResponse.ok) {
-      const errorData = await openAIResponse.json();
-      console.error('OpenAI API error:', errorData);
-      throw new Error(`OpenAI API error: ${errorData.error?.message || 'Unknown error'}`);
-    }
-
-    const data = await openAIResponse.json();
-    const aiScores = JSON.parse(data.choices[0].message.content);
+    // Ask the configured provider and only accept scores for the tasks we sent
+    const provider = createProviderFromEnv();
+    const content = await provider.complete(systemPrompt, tasksFormatted);
+    const { scores: aiScores, rationales: aiRationales } = parseAiPriorities(
+      content,
+      tasksFormatted.map(task => task.id)
+    );
     
-    // If user is authenticated, update the tasks in the database
-    if (userId && userId !== 'guest') {
-      const supabase = createClient(supabaseUrl, supabaseServiceKey);
-      
-      // Update each task with its AI score
+    // If user is authenticated, update the tasks in the database. The user comes
+    // from the request's token, never the body; guests send the anon key, which
+    // has no user, so their scores are only returned.
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (user) {
+      // Update each task with its AI score and the reasoning behind it
       for (const [taskId, score] of Object.entries(aiScores)) {
         await supabase
           .from('tasks')
-          .update({ ai_score: score })
+          .update({ ai_score: score, ai_rationale: aiRationales[taskId] ?? null })
           .eq('id', taskId)
-          .eq('user_id', userId);
+          .eq('user_id', user.id);
       }
     }
 
     return new Response(
-      JSON.stringify({ success: true, aiScores }),
+      JSON.stringify({ success: true, aiScores, aiRationales }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
@@ -112,7 +114,8 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ error: error.message }),
       { 
-        status: 500, 
+        // An invalid model response is an upstream failure, not ours
+        status: error instanceof AiResponseValidationError ? 502 : 500, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     );
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { PrioritizationTask, createMockProvider } from './providers.ts';
+import { parseAiPriorities } from './validation.ts';
+
+const tasks: PrioritizationTask[] = [
+  { id: 'task-1', title: 'Pay rent', description: '', due_date: '2025-06-06T17:00:00Z', status: 'pending', priority: 'high' },
+  { id: 'task-2', title: 'Call back ASAP', description: '', due_date: null, status: 'in-progress', priority: 'urgent' },
+  { id: 'task-3', title: 'Tidy shelf', description: 'Some day', due_date: null, status: 'completed', priority: 'low' },
+];
+
+describe('createMockProvider', () => {
+  it('returns the same output for the same tasks', async () => {
+    const first = await createMockProvider().complete('prompt', tasks);
+    const second = await createMockProvider().complete('another prompt', structuredClone(tasks));
+
+    expect(second).toBe(first);
+  });
+
+  it('returns scores that pass validation', async () => {
+    const content = await createMockProvider().complete('prompt', tasks);
+
+    expect(parseAiPriorities(content, tasks.map((task) => task.id))).toEqual({
+      scores: { 'task-1': 80, 'task-2': 100, 'task-3': 10 },
+      rationales: {
+        'task-1': 'High priority, has a due date',
+        'task-2': 'Urgent priority, in progress, urgent wording',
+        'task-3': 'Low priority, already completed',
+      },
+    });
+  });
+
+  it('keeps scores within 1 to 100', async () => {
+    const low = { ...tasks[2], priority: 'unknown' };
+    const high = { ...tasks[1], due_date: '2025-06-06T17:00:00Z', title: 'Do today ASAP' };
+    const { scores } = parseAiPriorities(await createMockProvider().complete('prompt', [low, high]), ['task-3', 'task-2']);
+
+    expect(scores['task-3']).toBeGreaterThanOrEqual(1);
+    expect(scores['task-2']).toBe(100);
+  });
+});
@@ -0,0 +1,134 @@
+// LLM providers used by the ai-prioritize function. Every provider receives the
+// system prompt plus the formatted tasks and returns the model's raw text, which
+// is validated by the caller.
+
+export interface PrioritizationTask {
+  id: string;
+  title: string;
+  description: string;
+  due_date: string | null;
+  status: string;
+  priority: string;
+}
+
+export interface LlmProvider {
+  name: string;
+  complete: (systemPrompt: string, tasks: PrioritizationTask[]) => Promise<string>;
+}
+
+interface OpenAiCompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  temperature?: number;
+  jsonMode?: boolean;
+}
+
+// Any endpoint that implements the OpenAI chat completions API (OpenAI, Azure,
+// OpenRouter, Ollama, LM Studio, ...)
+export const createOpenAiCompatibleProvider = (options: OpenAiCompatibleOptions): LlmProvider => ({
+  name: `openai-compatible:${options.model}`,
+  complete: async (systemPrompt, tasks) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) {
+      headers['Authorization'] = `Bearer ${options.apiKey}`;
+    }
+
+    const response = await fetch(`${options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: JSON.stringify(tasks) }
+        ],
+        temperature: options.temperature ?? 0.2,
+        ...(options.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('LLM provider error:', errorData);
+      throw new Error(`LLM provider error: ${errorData.error?.message || response.statusText || 'Unknown error'}`);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('LLM provider returned no message content');
+    }
+
+    return content;
+  },
+});
+
+const MOCK_PRIORITY_SCORES: Record<string, number> = {
+  urgent: 85,
+  high: 70,
+  medium: 50,
+  low: 30,
+};
+
+// Deterministic provider for tests and offline development: the same tasks
+// always produce the same scores, without any network access.
+export const createMockProvider = (): LlmProvider => ({
+  name: 'mock',
+  complete: async (_systemPrompt, tasks) => {
+    const priorities: Record<string, { score: number; rationale: string }> = {};
+
+    for (const task of tasks) {
+      let score = MOCK_PRIORITY_SCORES[task.priority] ?? MOCK_PRIORITY_SCORES.low;
+      const reasons = [`${task.priority} priority`];
+      if (task.status === 'in-progress') {
+        score += 5;
+        reasons.push('in progress');
+      }
+      if (task.status === 'completed') {
+        score -= 20;
+        reasons.push('already completed');
+      }
+      if (task.due_date) {
+        score += 10;
+        reasons.push('has a due date');
+      }
+      if (/urgent|asap|today/i.test(`${task.title} ${task.description}`)) {
+        score += 10;
+        reasons.push('urgent wording');
+      }
+      const rationale = reasons.join(', ');
+      priorities[task.id] = {
+        score: Math.min(Math.max(score, 1), 100),
+        rationale: rationale.charAt(0).toUpperCase() + rationale.slice(1),
+      };
+    }
+
+    return JSON.stringify(priorities);
+  },
+});
+
+// Pick the provider from the environment:
+//   AI_PROVIDER   "openai" (default) or "mock"
+//   AI_BASE_URL   OpenAI-compatible base URL, defaults to https://api.openai.com/v1
+//   AI_MODEL      model name, defaults to gpt-4o-mini
+//   AI_API_KEY    API key, falls back to OPENAI_API_KEY
+//   AI_JSON_MODE  set to "false" for endpoints without response_format support
+export const createProviderFromEnv = (): LlmProvider => {
+  const providerName = (Deno.env.get('AI_PROVIDER') || 'openai').toLowerCase();
+
+  if (providerName === 'mock') {
+    return createMockProvider();
+  }
+
+  if (providerName !== 'openai') {
+    throw new Error(`Unknown AI_PROVIDER "${providerName}"`);
+  }
+
+  return createOpenAiCompatibleProvider({
+    baseUrl: Deno.env.get('AI_BASE_URL') || 'https://api.openai.com/v1',
+    apiKey: Deno.env.get('AI_API_KEY') || Deno.env.get('OPENAI_API_KEY'),
+    model: Deno.env.get('AI_MODEL') || 'gpt-4o-mini',
+    jsonMode: Deno.env.get('AI_JSON_MODE') !== 'false',
+  });
+};
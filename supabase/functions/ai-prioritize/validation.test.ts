@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { AiResponseValidationError, parseAiPriorities } from './validation.ts';
+
+const ids = ['task-1', 'task-2'];
+
+const expectRejected = (content: string, message: RegExp) => {
+  expect(() => parseAiPriorities(content, ids)).toThrow(AiResponseValidationError);
+  expect(() => parseAiPriorities(content, ids)).toThrow(message);
+};
+
+describe('parseAiPriorities', () => {
+  it('reads scores and rationales for every requested task', () => {
+    const content = JSON.stringify({
+      'task-1': { score: 82.4, rationale: '  Due tomorrow  ' },
+      'task-2': { score: 15, rationale: '' },
+    });
+
+    expect(parseAiPriorities(content, ids)).toEqual({
+      scores: { 'task-1': 82, 'task-2': 15 },
+      rationales: { 'task-1': 'Due tomorrow' },
+    });
+  });
+
+  it('accepts bare numbers and cuts long rationales off', () => {
+    const content = JSON.stringify({ 'task-1': 40, 'task-2': { score: 60, rationale: 'x'.repeat(300) } });
+    const { scores, rationales } = parseAiPriorities(content, ids);
+
+    expect(scores).toEqual({ 'task-1': 40, 'task-2': 60 });
+    expect(rationales['task-2']).toHaveLength(200);
+  });
+
+  it('unwraps JSON in a markdown code fence', () => {
+    const content = '```json\n{ "task-1": 40, "task-2": 60 }\n```';
+    expect(parseAiPriorities(content, ids).scores).toEqual({ 'task-1': 40, 'task-2': 60 });
+  });
+
+  it.each([
+    ['prose', 'Here are the scores: task-1 is 40'],
+    ['an unterminated fence', '```json\n{ "task-1": 40, "task-2": 60 }'],
+    ['a truncated object', '{ "task-1": 40, "task-2": '],
+  ])('rejects %s', (_name, content) => {
+    expectRejected(content, /not valid JSON/);
+  });
+
+  it.each([
+    ['an array', '[40, 60]'],
+    ['a number', '40'],
+    ['null', 'null'],
+  ])('rejects %s instead of an object', (_name, content) => {
+    expectRejected(content, /object keyed by task ID/);
+  });
+
+  it('rejects unknown task IDs', () => {
+    expectRejected(JSON.stringify({ 'task-1': 40, 'task-2': 60, 'task-3': 90 }), /unknown task ID "task-3"/);
+  });
+
+  it('rejects a task scored twice', () => {
+    expectRejected('{ "task-1": 40, "task-2": 60, "task-1": { "score": 90 } }', /task "task-1" more than once/);
+  });
+
+  it('allows the same key inside different entries', () => {
+    const content = '{ "task-1": { "score": 40, "rationale": "a" }, "task-2": { "score": 60, "rationale": "b" } }';
+    expect(parseAiPriorities(content, ids).scores).toEqual({ 'task-1': 40, 'task-2': 60 });
+  });
+
+  it('rejects responses missing requested IDs', () => {
+    expectRejected(JSON.stringify({ 'task-1': 40 }), /missing scores for 1 task/);
+    expectRejected('{}', /missing scores for 2 task/);
+  });
+
+  it.each([
+    ['a string', '"80"'],
+    ['null', 'null'],
+    ['a boolean', 'true'],
+  ])('rejects %s as a score', (_name, score) => {
+    expectRejected(`{ "task-1": { "score": ${score} }, "task-2": 60 }`, /task "task-1" must be a number from 1 to 100/);
+  });
+
+  it.each([0, 101, -5, 1e9])('rejects the out-of-range score %s', (score) => {
+    expectRejected(JSON.stringify({ 'task-1': score, 'task-2': 60 }), /must be a number from 1 to 100/);
+  });
+
+  it('rejects entries without a score and rationales that are not text', () => {
+    expectRejected(JSON.stringify({ 'task-1': { rationale: 'Soon' }, 'task-2': 60 }), /must be a number/);
+    expectRejected(JSON.stringify({ 'task-1': [40], 'task-2': 60 }), /must be an object with a score/);
+    expectRejected(JSON.stringify({ 'task-1': { score: 40, rationale: 7 }, 'task-2': 60 }), /rationale .* must be a string/);
+  });
+});
@@ -0,0 +1,120 @@
+// Validation of the scores returned by the LLM. Models occasionally wrap JSON in
+// markdown fences, invent task IDs or return out-of-range values, so nothing is
+// trusted until it has been checked against the request.
+
+export class AiResponseValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiResponseValidationError';
+  }
+}
+
+const stripCodeFences = (content: string): string => {
+  const match = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : content.trim();
+};
+
+// Keys that appear more than once in the top-level object of a JSON text.
+// JSON.parse keeps only the last of them, which would hide a model scoring the
+// same task twice.
+const findDuplicateKeys = (json: string): string[] => {
+  const seen = new Set<string>();
+  const duplicates: string[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (char === '{' || char === '[') depth++;
+    else if (char === '}' || char === ']') depth--;
+    else if (char === '"') {
+      const start = i;
+      for (i++; json[i] !== '"'; i++) {
+        if (json[i] === '\\') i++;
+      }
+      const isKey = depth === 1 && /^\s*:/.test(json.slice(i + 1));
+      if (!isKey) continue;
+
+      const key = JSON.parse(json.slice(start, i + 1)) as string;
+      if (seen.has(key)) duplicates.push(key);
+      seen.add(key);
+    }
+  }
+
+  return duplicates;
+};
+
+// Longest rationale kept per task; anything beyond is cut off
+const MAX_RATIONALE_LENGTH = 200;
+
+export interface AiPriorities {
+  scores: Record<string, number>;
+  rationales: Record<string, string>;
+}
+
+const parseScore = (taskId: string, value: unknown): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 1 || value > 100) {
+    throw new AiResponseValidationError(`AI score for task "${taskId}" must be a number from 1 to 100`);
+  }
+  return Math.round(value);
+};
+
+// Parse `{ "<task id>": { "score": <1-100>, "rationale": "<text>" }, ... }` and make
+// sure it covers exactly the requested task IDs. A bare number is accepted in place
+// of the object for models that leave the rationale out.
+export const parseAiPriorities = (content: string, requestedIds: string[]): AiPriorities => {
+  const json = stripCodeFences(content);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new AiResponseValidationError('AI response is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new AiResponseValidationError('AI response must be an object keyed by task ID');
+  }
+
+  const [duplicate] = findDuplicateKeys(json);
+  if (duplicate !== undefined) {
+    throw new AiResponseValidationError(`AI response scores task "${duplicate}" more than once`);
+  }
+
+  const requested = new Set(requestedIds);
+  const scores: Record<string, number> = {};
+  const rationales: Record<string, string> = {};
+
+  for (const [taskId, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!requested.has(taskId)) {
+      throw new AiResponseValidationError(`AI response contains unknown task ID "${taskId}"`);
+    }
+
+    if (typeof value === 'number') {
+      scores[taskId] = parseScore(taskId, value);
+      continue;
+    }
+
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new AiResponseValidationError(`AI entry for task "${taskId}" must be an object with a score`);
+    }
+
+    const entry = value as { score?: unknown; rationale?: unknown };
+    scores[taskId] = parseScore(taskId, entry.score);
+
+    if (entry.rationale !== undefined && entry.rationale !== null) {
+      if (typeof entry.rationale !== 'string') {
+        throw new AiResponseValidationError(`AI rationale for task "${taskId}" must be a string`);
+      }
+      const rationale = entry.rationale.trim().slice(0, MAX_RATIONALE_LENGTH);
+      if (rationale) {
+        rationales[taskId] = rationale;
+      }
+    }
+  }
+
+  const missing = requestedIds.filter((id) => !(id in scores));
+  if (missing.length > 0) {
+    throw new AiResponseValidationError(`AI response is missing scores for ${missing.length} task(s)`);
+  }
+
+  return { scores, rationales };
+};
@@ -0,0 +1,15 @@
+-- Tasks can optionally belong to a project. Deleting a project keeps its
+-- tasks and simply detaches them.
+alter table public.tasks
+  add column if not exists project_id uuid references public.projects (id) on delete set null;
+
+create index if not exists tasks_project_id_idx on public.tasks (project_id);
+
+alter table public.projects enable row level security;
+
+drop policy if exists "Users can manage their own projects" on public.projects;
+create policy "Users can manage their own projects"
+  on public.projects
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Checklist items are stored inline on the task as an ordered array of
+-- { id, title, completed } objects. The parent's progress is derived from them
+-- on the client.
+alter table public.tasks
+  add column if not exists subtasks jsonb not null default '[]'::jsonb;
@@ -0,0 +1,4 @@
+-- Recurrence rules are stored in RRULE form, e.g. "FREQ=WEEKLY;BYDAY=MO".
+-- Completing a recurring task spawns its next occurrence on the client.
+alter table public.tasks
+  add column if not exists recurrence text;
@@ -0,0 +1,27 @@
+-- "Blocked by" relationships between tasks: task_id cannot start until
+-- blocked_by_id is completed. Cycles are rejected on the client before saving.
+create table if not exists public.task_dependencies (
+  task_id uuid not null references public.tasks (id) on delete cascade,
+  blocked_by_id uuid not null references public.tasks (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (task_id, blocked_by_id),
+  constraint task_dependencies_not_self check (task_id <> blocked_by_id)
+);
+
+create index if not exists task_dependencies_blocked_by_id_idx
+  on public.task_dependencies (blocked_by_id);
+
+alter table public.task_dependencies enable row level security;
+
+drop policy if exists "Users can manage dependencies of their own tasks" on public.task_dependencies;
+create policy "Users can manage dependencies of their own tasks"
+  on public.task_dependencies
+  for all
+  using (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+    and exists (select 1 from public.tasks t where t.id = blocked_by_id and t.user_id = auth.uid())
+  )
+  with check (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+    and exists (select 1 from public.tasks t where t.id = blocked_by_id and t.user_id = auth.uid())
+  );
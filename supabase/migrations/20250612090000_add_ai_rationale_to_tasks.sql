@@ -0,0 +1,4 @@
+-- Short explanation of why a task received its AI score, written by the
+-- ai-prioritize function or the client-side scoring engine.
+alter table public.tasks
+  add column if not exists ai_rationale text;
@@ -0,0 +1,92 @@
+-- Atomic task writes: inserts or updates a task together with its tag set and
+-- "blocked by" dependencies in a single transaction, so a failure halfway can
+-- no longer leave a task without its tags. Runs as the caller, so row level
+-- security still applies to every table it touches.
+create or replace function public.upsert_task(
+  p_task jsonb,
+  p_tag_ids uuid[] default '{}',
+  p_blocked_by_ids uuid[] default '{}'
+)
+returns public.tasks
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_task public.tasks;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '28000';
+  end if;
+
+  insert into public.tasks (
+    id,
+    user_id,
+    title,
+    description,
+    status,
+    priority,
+    progress,
+    subtasks,
+    due_date,
+    recurrence,
+    completed_at,
+    project_id,
+    ai_score,
+    ai_rationale
+  )
+  values (
+    coalesce((p_task->>'id')::uuid, gen_random_uuid()),
+    v_user_id,
+    p_task->>'title',
+    coalesce(p_task->>'description', ''),
+    coalesce(p_task->>'status', 'pending'),
+    coalesce(p_task->>'priority', 'medium'),
+    coalesce((p_task->>'progress')::numeric, 0),
+    coalesce(p_task->'subtasks', '[]'::jsonb),
+    (p_task->>'due_date')::timestamptz,
+    p_task->>'recurrence',
+    (p_task->>'completed_at')::timestamptz,
+    (p_task->>'project_id')::uuid,
+    coalesce((p_task->>'ai_score')::numeric, 0),
+    p_task->>'ai_rationale'
+  )
+  on conflict (id) do update set
+    title = excluded.title,
+    description = excluded.description,
+    status = excluded.status,
+    priority = excluded.priority,
+    progress = excluded.progress,
+    subtasks = excluded.subtasks,
+    due_date = excluded.due_date,
+    recurrence = excluded.recurrence,
+    completed_at = excluded.completed_at,
+    project_id = excluded.project_id,
+    ai_score = excluded.ai_score,
+    ai_rationale = excluded.ai_rationale,
+    updated_at = now()
+  where public.tasks.user_id = v_user_id
+  returning * into v_task;
+
+  -- The conflict update is skipped when the id belongs to another user
+  if v_task.id is null then
+    raise exception 'Task % not found', p_task->>'id' using errcode = 'P0002';
+  end if;
+
+  delete from public.task_tags where task_id = v_task.id;
+  insert into public.task_tags (task_id, tag_id)
+  select distinct v_task.id, tag_id
+  from unnest(coalesce(p_tag_ids, '{}')) as tag_id;
+
+  delete from public.task_dependencies where task_id = v_task.id;
+  insert into public.task_dependencies (task_id, blocked_by_id)
+  select distinct v_task.id, blocked_by_id
+  from unnest(coalesce(p_blocked_by_ids, '{}')) as blocked_by_id;
+
+  return v_task;
+end;
+$$;
+
+revoke all on function public.upsert_task(jsonb, uuid[], uuid[]) from public, anon;
+grant execute on function public.upsert_task(jsonb, uuid[], uuid[]) to authenticated;
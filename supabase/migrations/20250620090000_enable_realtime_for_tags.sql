@@ -0,0 +1,19 @@
+-- Stream tag and link changes to clients so they can apply them incrementally.
+-- Full replica identity puts both ids of a removed link in DELETE events.
+alter table public.task_tags replica identity full;
+alter table public.task_dependencies replica identity full;
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['tasks', 'tags', 'task_tags', 'task_dependencies'] loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
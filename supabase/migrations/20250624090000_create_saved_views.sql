@@ -0,0 +1,21 @@
+-- Named filter queries a user can switch between, e.g.
+-- "Work this week" = tag:work due:week -status:completed
+create table if not exists public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  name text not null,
+  query text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists saved_views_user_id_idx
+  on public.saved_views (user_id);
+
+alter table public.saved_views enable row level security;
+
+drop policy if exists "Users can manage their own saved views" on public.saved_views;
+create policy "Users can manage their own saved views"
+  on public.saved_views
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
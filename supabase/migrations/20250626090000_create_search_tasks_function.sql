@@ -0,0 +1,47 @@
+-- Full-text search over the caller's tasks. Titles weigh more than
+-- descriptions, and tasks with a matching tag name are found as well. The
+-- English configuration adds stemming ("running" finds "run"), which the
+-- client's fuzzy index doesn't do.
+create index if not exists tasks_search_idx
+  on public.tasks
+  using gin (
+    (setweight(to_tsvector('english', coalesce(title, '')), 'A')
+      || setweight(to_tsvector('english', coalesce(description, '')), 'B'))
+  );
+
+create or replace function public.search_tasks(p_query text, p_limit integer default 50)
+returns table (id uuid, rank real)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', p_query) as english,
+           websearch_to_tsquery('simple', p_query) as simple
+  )
+  select t.id,
+         ts_rank(
+           setweight(to_tsvector('english', coalesce(t.title, '')), 'A')
+             || setweight(to_tsvector('english', coalesce(t.description, '')), 'B'),
+           q.english
+         ) as rank
+  from public.tasks t, q
+  where t.user_id = auth.uid()
+    and (
+      (setweight(to_tsvector('english', coalesce(t.title, '')), 'A')
+        || setweight(to_tsvector('english', coalesce(t.description, '')), 'B')) @@ q.english
+      or exists (
+        select 1
+        from public.task_tags tt
+        join public.tags tg on tg.id = tt.tag_id
+        where tt.task_id = t.id
+          and to_tsvector('simple', tg.name) @@ q.simple
+      )
+    )
+  order by rank desc
+  limit greatest(coalesce(p_limit, 50), 1);
+$$;
+
+revoke all on function public.search_tasks(text, integer) from public, anon;
+grant execute on function public.search_tasks(text, integer) to authenticated;
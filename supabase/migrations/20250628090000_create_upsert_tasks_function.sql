@@ -0,0 +1,46 @@
+-- Writes several tasks in one transaction for bulk edits, and to put tasks back
+-- when a bulk edit or delete is undone. Each element of p_tasks is
+-- { "task": <as for upsert_task>, "tag_ids": [...], "blocked_by_ids": [...],
+--   "expected_updated_at": <optional, as for upsert_task> }.
+-- A task that changed or was deleted since its expected version fails the whole
+-- batch with PT409, naming the task in the error detail. Dependencies are written
+-- after every task exists, so tasks restored together may depend on each other.
+create or replace function public.upsert_tasks(p_tasks jsonb)
+returns setof public.tasks
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_item jsonb;
+  v_task public.tasks;
+begin
+  for v_item in select value from jsonb_array_elements(coalesce(p_tasks, '[]'::jsonb))
+  loop
+    -- Also clears the task's old dependencies
+    begin
+      v_task := public.upsert_task(
+        v_item->'task',
+        array(select jsonb_array_elements_text(coalesce(v_item->'tag_ids', '[]'::jsonb))::uuid),
+        '{}',
+        (v_item->>'expected_updated_at')::timestamptz
+      );
+    exception when sqlstate 'PT409' then
+      raise exception using
+        errcode = 'PT409',
+        message = sqlerrm,
+        detail = v_item->'task'->>'id';
+    end;
+
+    return next v_task;
+  end loop;
+
+  insert into public.task_dependencies (task_id, blocked_by_id)
+  select distinct (item->'task'->>'id')::uuid, blocked_by_id::uuid
+  from jsonb_array_elements(coalesce(p_tasks, '[]'::jsonb)) as item,
+    jsonb_array_elements_text(coalesce(item->'blocked_by_ids', '[]'::jsonb)) as blocked_by_id;
+end;
+$$;
+
+revoke all on function public.upsert_tasks(jsonb) from public, anon;
+grant execute on function public.upsert_tasks(jsonb) to authenticated;